@@ -6,4 +6,15 @@ export * from "./internal/utils"
 export * from "./internal/client"
 export * from "./internal/suiswap-client"
 export * from "./internal/transaction"
-export * from "./internal/debug"
\ No newline at end of file
+export * from "./internal/debug"
+export * from "./internal/router"
+export * from "./internal/slippage"
+export * from "./internal/arbitrage"
+export * from "./internal/oracle"
+export * from "./internal/coin-metadata"
+export * from "./internal/token-list"
+export * from "./internal/network"
+export * from "./internal/explorer"
+export * from "./internal/event-stream"
+export * from "./internal/pool-watcher"
+export * from "./internal/candle"
\ No newline at end of file
@@ -0,0 +1,169 @@
+import { BigIntConstants, NumberLimit } from "./constants";
+import { PoolInfo, CoinType } from "./common";
+import { SwapRouter, SwapRoute, SwapRoutePath } from "./router";
+
+export interface ArbitrageOpportunity {
+    /// The coin which the cycle starts and ends with, the profit is measured in this coin
+    coinType: CoinType;
+    path: SwapRoutePath;
+    route: SwapRoute;
+    inAmount: bigint;
+    outAmount: bigint;
+    profit: bigint;
+}
+
+export interface ArbitrageDetectorProps {
+    pools: PoolInfo[];
+    maxHops?: number;
+}
+
+export class ArbitrageDetector {
+    static DEFAULT_MAX_HOPS = 3;
+
+    router: SwapRouter;
+    maxHops: number;
+
+    constructor(props: ArbitrageDetectorProps) {
+        this.maxHops = props.maxHops ?? ArbitrageDetector.DEFAULT_MAX_HOPS;
+        this.router = new SwapRouter({ pools: props.pools, maxHops: this.maxHops });
+    }
+
+    /// Enumerate all the cycles with at least 2 hops (e.g. the same pair across v2 and stable pools) and at most maxHops hops.
+    /// A pool is never used twice in a cycle, and the rotations of the same cycle are only reported once.
+    getCycles = () => {
+        const cycles: SwapRoutePath[] = [];
+        const cycleKeys = new Set<string>();
+
+        const coinTypes = new Map<string, CoinType>();
+        this.router.pools.forEach(pool => {
+            coinTypes.set(pool.type.xTokenType.str(), pool.type.xTokenType);
+            coinTypes.set(pool.type.yTokenType.str(), pool.type.yTokenType);
+        });
+
+        for (const startType of coinTypes.values()) {
+            const visited = new Set<string>([startType.str()]);
+            const usedPools = new Set<string>();
+
+            const search = (coinType: CoinType, path: SwapRoutePath) => {
+                if (path.length >= this.maxHops) {
+                    return;
+                }
+
+                for (const hop of this.router.getHopsFrom(coinType)) {
+                    if (usedPools.has(hop.pool.addr)) {
+                        continue;
+                    }
+
+                    const nextType = SwapRouter.getHopOutputType(hop);
+                    const nextPath = [...path, hop];
+                    if (nextType.str() === startType.str()) {
+                        const key = nextPath.map(h => `${h.pool.addr}:${h.direction}`).sort().join(",");
+                        if (nextPath.length >= 2 && !cycleKeys.has(key)) {
+                            cycleKeys.add(key);
+                            cycles.push(nextPath);
+                        }
+                        continue;
+                    }
+                    if (visited.has(nextType.str())) {
+                        continue;
+                    }
+
+                    visited.add(nextType.str());
+                    usedPools.add(hop.pool.addr);
+                    search(nextType, nextPath);
+                    usedPools.delete(hop.pool.addr);
+                    visited.delete(nextType.str());
+                }
+            }
+
+            search(startType, []);
+        }
+
+        return cycles;
+    }
+
+    static getProfit = (path: SwapRoutePath, amount: bigint) => {
+        const route = SwapRouter.getRouteForPath(path, amount);
+        return (route === null) ? BigIntConstants.MINUS_ONE * amount : route.outAmount - amount;
+    }
+
+    /// Find the input amount with the max profit for the cycle, return null when the cycle is not profitable.
+    /// The profit is concave on the input amount, so we first scan the powers of two to locate the range and then do a ternary search.
+    static getOptimalInputAmount = (path: SwapRoutePath) => {
+        const profit = (amount: bigint) => ArbitrageDetector.getProfit(path, amount);
+
+        // Small amounts might give nothing because of rounding, so scanning all the scales instead of stopping at the first decrease
+        let scale = BigIntConstants.ONE;
+        let bestScale = BigIntConstants.ONE;
+        let bestScaleProfit = profit(scale);
+        while (scale * BigIntConstants.TWO <= NumberLimit.U64_MAX) {
+            scale = scale * BigIntConstants.TWO;
+            const p = profit(scale);
+            if (p > bestScaleProfit) {
+                bestScale = scale;
+                bestScaleProfit = p;
+            }
+        }
+
+        let lo = bestScale / BigIntConstants.TWO;
+        let hi = (bestScale * BigIntConstants.TWO <= NumberLimit.U64_MAX) ? bestScale * BigIntConstants.TWO : NumberLimit.U64_MAX;
+
+        while (hi - lo > BigIntConstants.TWO) {
+            const m1 = lo + (hi - lo) / BigIntConstants.THREE;
+            const m2 = hi - (hi - lo) / BigIntConstants.THREE;
+            if (profit(m1) < profit(m2)) {
+                lo = m1;
+            }
+            else {
+                hi = m2;
+            }
+        }
+
+        let bestAmount = lo;
+        let bestProfit = profit(lo);
+        for (let amount = lo + BigIntConstants.ONE; amount <= hi; amount += BigIntConstants.ONE) {
+            const p = profit(amount);
+            if (p > bestProfit) {
+                bestAmount = amount;
+                bestProfit = p;
+            }
+        }
+
+        return (bestProfit > BigIntConstants.ZERO) ? bestAmount : null;
+    }
+
+    /// Get all the profitable cycles with the optimal input amount, sorted by the profit from the highest to the lowest.
+    /// Note that the profits of different opportunities might be measured in different coins.
+    getOpportunities = (minProfit?: bigint) => {
+        const opportunities: ArbitrageOpportunity[] = [];
+
+        for (const path of this.getCycles()) {
+            const amount = ArbitrageDetector.getOptimalInputAmount(path);
+            if (amount === null) {
+                continue;
+            }
+
+            const route = SwapRouter.getRouteForPath(path, amount);
+            if (route === null) {
+                continue;
+            }
+
+            const profit = route.outAmount - route.inAmount;
+            if (profit <= (minProfit ?? BigIntConstants.ZERO)) {
+                continue;
+            }
+
+            opportunities.push({
+                coinType: route.inputType,
+                path,
+                route,
+                inAmount: route.inAmount,
+                outAmount: route.outAmount,
+                profit
+            });
+        }
+
+        opportunities.sort((a, b) => (a.profit < b.profit) ? 1 : (a.profit > b.profit ? -1 : 0));
+        return opportunities;
+    }
+}
@@ -0,0 +1,80 @@
+import { expect } from "chai";
+import { normalizeSuiObjectId as nid } from "@mysten/sui.js";
+import { CommonTransaction, PoolType } from "./common";
+import { CandleBuilder, SwapTrade } from "./candle";
+
+describe('CandleBuilder', () => {
+    // x has 6 decimals and y has 9 decimals, so 1 x = 2 y is 1e6 : 2e9
+    const props = { interval: 60, xDecimal: 6, yDecimal: 9, poolId: "0x51" };
+    const trade = (timestamp: number, price: number, direction: "forward" | "reverse", id?: string): SwapTrade => {
+        const x = BigInt(1000000);
+        const y = BigInt(Math.round(price * 1e9));
+        return (direction === "forward")
+            ? { id, poolId: "0x51", direction, inAmount: x, outAmount: y, timestamp }
+            : { id, poolId: "0x51", direction, inAmount: y, outAmount: x, timestamp };
+    }
+
+    it('aggregates the candles incrementally', () => {
+        const builder = new CandleBuilder(props);
+        builder.append(trade(0, 2.0, "forward"));
+        builder.append(trade(10, 2.5, "reverse"));
+        builder.append(trade(59, 1.5, "forward"));
+        builder.append(trade(61, 1.8, "forward"));
+        builder.append({ ...trade(62, 100.0, "forward"), poolId: "0x52" });
+        builder.append({ ...trade(63, 100.0, "forward"), poolId: undefined });
+
+        const candles = builder.getCandles();
+        expect(candles.length).equals(2);
+        expect(candles[0]).deep.include({ startTime: 0, open: 2.0, high: 2.5, low: 1.5, close: 1.5, trades: 3 });
+        expect(candles[0].volumeX).closeTo(3.0, 1e-9);
+        expect(candles[0].volumeY).closeTo(6.0, 1e-9);
+        expect(builder.getLatestCandle()).deep.include({ startTime: 60, open: 1.8, close: 1.8, trades: 1 });
+    });
+
+    it('backfills the history out of order and skips the duplicates', () => {
+        const builder = new CandleBuilder(props);
+        builder.append(trade(100, 3.0, "forward", "tx3"));
+        builder.appendTrades([trade(50, 1.0, "forward", "tx1"), trade(70, 2.0, "forward", "tx2"), trade(100, 3.0, "forward", "tx3")]);
+        builder.append(trade(110, 4.0, "reverse", "tx4"));
+
+        const candles = builder.getCandles();
+        expect(candles.length).equals(2);
+        expect(candles[1]).deep.include({ startTime: 60, open: 2.0, high: 4.0, low: 2.0, close: 4.0, trades: 3 });
+
+        // The same swaps in one transaction are told apart by the event sequence
+        builder.append({ ...trade(115, 4.0, "forward", "tx6"), eventSeq: 0 });
+        builder.append({ ...trade(115, 4.0, "forward", "tx6"), eventSeq: 1 });
+        builder.append({ ...trade(115, 4.0, "forward", "tx6"), eventSeq: 1 });
+        expect(builder.getLatestCandle()!.trades).equals(5);
+
+        // The gap candles are flat at the previous close
+        builder.append(trade(250, 5.0, "forward", "tx5"));
+        const filled = builder.getCandles(true);
+        expect(filled.map(c => c.startTime)).deep.equals([0, 60, 120, 180, 240]);
+        expect(filled[2]).deep.include({ open: 4.0, close: 4.0, trades: 0, volumeX: 0 });
+    });
+
+    it('builds from the transactions', () => {
+        const poolType = {} as PoolType;
+        const txs: CommonTransaction[] = [
+            { id: "tx1", href: "", type: "swap", success: true, timestamp: 5, poolId: "0x51", data: { poolType, direction: "forward", inAmount: BigInt(1000000), outAmount: BigInt(2000000000) } },
+            { id: "tx2", href: "", type: "deposit", success: true, timestamp: 6, poolId: "0x51", data: { poolType, inAmountX: BigInt(1), inAmountY: BigInt(1) } },
+        ];
+
+        // The pool id of the transactions is normalized
+        const normalized = txs.map(tx => ({ ...tx, poolId: nid(tx.poolId!) }));
+        const builder = CandleBuilder.fromTransactions(normalized, props);
+        expect(builder.getCandles().length).equals(1);
+        expect(builder.getLatestCandle()!.close).closeTo(2.0, 1e-9);
+        expect(() => new CandleBuilder({ ...props, interval: 0 })).throws();
+    });
+
+    it('caps the seen trade keys', () => {
+        const builder = new CandleBuilder(props);
+        for (let i = 0; i <= CandleBuilder.MAX_SEEN_TRADE_KEYS; ++i) {
+            builder.append(trade(i, 2.0, "forward", `tx${i}`));
+        }
+        expect(builder.seenTradeKeys.size).equals(CandleBuilder.MAX_SEEN_TRADE_KEYS);
+        expect(builder.append(trade(CandleBuilder.MAX_SEEN_TRADE_KEYS, 2.0, "forward", `tx${CandleBuilder.MAX_SEEN_TRADE_KEYS}`))).equals(null);
+    });
+});
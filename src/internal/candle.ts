@@ -0,0 +1,220 @@
+import { normalizeSuiObjectId as nid } from "@mysten/sui.js";
+import { AddressType, CommonTransaction, PoolDirectionType, SwapTransactionData } from "./common";
+
+export interface SwapTrade {
+    /// The transaction digest and the event sequence in the transaction, used to skip the trades appended twice
+    id?: string;
+    eventSeq?: number;
+    poolId?: AddressType;
+    direction: PoolDirectionType;
+    inAmount: bigint;
+    outAmount: bigint;
+    /// The timestamp in seconds
+    timestamp: number;
+}
+
+export interface Candle {
+    /// The start time of the candle in seconds, the candle covers [startTime, startTime + interval)
+    startTime: number;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    /// The traded volume of x and y in the visual space (divided by 10 ** demical)
+    volumeX: number;
+    volumeY: number;
+    trades: number;
+}
+
+export interface CandleBuilderProps {
+    /// The interval of the candles in seconds
+    interval: number;
+    xDecimal: number;
+    yDecimal: number;
+    /// Only the trades of the pool are aggregated when provided, the trades without the pool id are skipped
+    poolId?: AddressType;
+}
+
+/// Aggregate the swap trades of a pool into OHLCV candles. The price is the price of x in y, the same as PoolInfo.getPrice.
+/// The trades could be appended in any order, e.g. the live events first and the historical backfill later.
+export class CandleBuilder {
+    static INTERVAL_MINUTE = 60;
+    static INTERVAL_HOUR = 3600;
+    static INTERVAL_DAY = 86400;
+    static MAX_SEEN_TRADE_KEYS = 10000;
+
+    interval: number;
+    xDecimal: number;
+    yDecimal: number;
+    poolId: AddressType | null;
+
+    candles: Map<number, Candle> = new Map();
+    /// The time of the open and close trades of each candle, for handling the trades out of order
+    openCloseTimes: Map<number, [number, number]> = new Map();
+    seenTradeKeys: Set<string> = new Set();
+
+    constructor(props: CandleBuilderProps) {
+        if (!(props.interval > 0)) {
+            throw new Error(`Invalid candle interval: ${props.interval}`);
+        }
+
+        this.interval = props.interval;
+        this.xDecimal = props.xDecimal;
+        this.yDecimal = props.yDecimal;
+        this.poolId = (props.poolId !== undefined) ? nid(props.poolId) : null;
+    }
+
+    static fromTrades = (trades: SwapTrade[], props: CandleBuilderProps) => {
+        const builder = new CandleBuilder(props);
+        builder.appendTrades(trades);
+        return builder;
+    }
+
+    static fromTransactions = (txs: CommonTransaction[], props: CandleBuilderProps) => {
+        const builder = new CandleBuilder(props);
+        builder.appendTransactions(txs);
+        return builder;
+    }
+
+    /// Convert the swap transaction (e.g. from SuiswapClient.getTransactionsPage or SuiswapEventStream) into the trade
+    static mapTransactionToTrade = (tx: CommonTransaction) => {
+        if (tx.type !== "swap") {
+            return null;
+        }
+
+        const data = tx.data as SwapTransactionData;
+        if (data.outAmount === undefined) {
+            return null;
+        }
+
+        const trade: SwapTrade = {
+            id: tx.id,
+            eventSeq: tx.eventSeq,
+            poolId: tx.poolId,
+            direction: data.direction,
+            inAmount: data.inAmount,
+            outAmount: data.outAmount,
+            timestamp: tx.timestamp
+        };
+        return trade;
+    }
+
+    getStartTime = (timestamp: number) => {
+        return Math.floor(timestamp / this.interval) * this.interval;
+    }
+
+    /// Get the execution price and the volumes of the trade in the visual space, null for the empty trades
+    getTradePrice = (trade: SwapTrade) => {
+        const [xAmount, yAmount] = (trade.direction === "forward") ? [trade.inAmount, trade.outAmount] : [trade.outAmount, trade.inAmount];
+        const volumeX = Number(xAmount) / (10 ** this.xDecimal);
+        const volumeY = Number(yAmount) / (10 ** this.yDecimal);
+        if (volumeX <= 0.0 || volumeY <= 0.0) {
+            return null;
+        }
+        return { price: volumeY / volumeX, volumeX, volumeY };
+    }
+
+    _markSeen = (key: string) => {
+        this.seenTradeKeys.add(key);
+        if (this.seenTradeKeys.size > CandleBuilder.MAX_SEEN_TRADE_KEYS) {
+            // Sets keep the insertion order, drop the oldest one
+            const oldest = this.seenTradeKeys.values().next().value as string;
+            this.seenTradeKeys.delete(oldest);
+        }
+    }
+
+    /// Append the trade, returns the updated candle or null when the trade is skipped
+    append = (trade: SwapTrade) => {
+        // The trades without the pool are rejected when the builder is bound to a pool, as they cannot be told apart
+        if (this.poolId !== null && (trade.poolId === undefined || nid(trade.poolId) !== this.poolId)) {
+            return null;
+        }
+
+        if (trade.id !== undefined) {
+            const key = `${trade.id}:${trade.eventSeq ?? ""}:${trade.poolId ?? ""}:${trade.direction}:${trade.inAmount}:${trade.outAmount}`;
+            if (this.seenTradeKeys.has(key)) {
+                return null;
+            }
+            this._markSeen(key);
+        }
+
+        const p = this.getTradePrice(trade);
+        if (p === null) {
+            return null;
+        }
+
+        const startTime = this.getStartTime(trade.timestamp);
+        const candle = this.candles.get(startTime);
+        if (candle === undefined) {
+            const newCandle: Candle = {
+                startTime,
+                open: p.price,
+                high: p.price,
+                low: p.price,
+                close: p.price,
+                volumeX: p.volumeX,
+                volumeY: p.volumeY,
+                trades: 1
+            };
+            this.candles.set(startTime, newCandle);
+            this.openCloseTimes.set(startTime, [trade.timestamp, trade.timestamp]);
+            return newCandle;
+        }
+
+        const [openTime, closeTime] = this.openCloseTimes.get(startTime)!;
+        if (trade.timestamp < openTime) {
+            candle.open = p.price;
+        }
+        if (trade.timestamp >= closeTime) {
+            candle.close = p.price;
+        }
+        this.openCloseTimes.set(startTime, [Math.min(openTime, trade.timestamp), Math.max(closeTime, trade.timestamp)]);
+
+        candle.high = Math.max(candle.high, p.price);
+        candle.low = Math.min(candle.low, p.price);
+        candle.volumeX += p.volumeX;
+        candle.volumeY += p.volumeY;
+        candle.trades += 1;
+        return candle;
+    }
+
+    appendTrades = (trades: SwapTrade[]) => {
+        // Sort for the backfill, so the open and close are decided by the time even for the trades at the same time
+        [...trades].sort((a, b) => a.timestamp - b.timestamp).forEach(trade => this.append(trade));
+    }
+
+    appendTransaction = (tx: CommonTransaction) => {
+        const trade = CandleBuilder.mapTransactionToTrade(tx);
+        return (trade === null) ? null : this.append(trade);
+    }
+
+    appendTransactions = (txs: CommonTransaction[]) => {
+        this.appendTrades(txs.map(tx => CandleBuilder.mapTransactionToTrade(tx)).filter(trade => trade !== null) as SwapTrade[]);
+    }
+
+    /// Get the candles from the oldest to the newest. When fillGaps is true, the intervals without trades are filled with
+    /// the flat candles at the previous close price.
+    getCandles = (fillGaps?: boolean) => {
+        const candles = Array.from(this.candles.values()).sort((a, b) => a.startTime - b.startTime).map(c => ({ ...c }));
+        if (fillGaps !== true || candles.length === 0) {
+            return candles;
+        }
+
+        const filled: Candle[] = [];
+        for (const candle of candles) {
+            const last = filled[filled.length - 1];
+            if (last !== undefined) {
+                for (let t = last.startTime + this.interval; t < candle.startTime; t += this.interval) {
+                    filled.push({ startTime: t, open: last.close, high: last.close, low: last.close, close: last.close, volumeX: 0, volumeY: 0, trades: 0 });
+                }
+            }
+            filled.push(candle);
+        }
+        return filled;
+    }
+
+    getLatestCandle = () => {
+        const candles = this.getCandles();
+        return (candles.length > 0) ? candles[candles.length - 1] : null;
+    }
+}
@@ -1,6 +1,7 @@
 import {  PoolInfo, CoinType, CoinInfo, AddressType, TxHashType, PositionInfo, CommonTransaction, EndPointType } from './common';
 import { MoveType } from './move-type';
 import { TransactionOperation } from './transaction';
+import { PriceOracle } from './oracle';
 
 export enum ClientFeatures {
     SupportMultiCoins = "SupportMultiCoins",
@@ -26,6 +27,11 @@ export abstract class Client {
 
     abstract getFeatures: () => Array<ClientFeatures>
 
+    /// The oracle for pricing the coins, override it when the client supports the price oracle
+    getPriceOracle: () => PriceOracle | null = () => {
+        return null;
+    }
+
     getCoins: () => Promise<CoinType[]> = async () => {
         return (await this.getCoinsAndPools()).coins;
     }
@@ -0,0 +1,55 @@
+import { expect } from "chai";
+import { CoinMetadata } from "@mysten/sui.js";
+import { CoinType } from "./common";
+import { MoveType } from "./move-type";
+import { CoinMetadataRegistry } from "./coin-metadata";
+
+const coin = (name: string) => new MoveType({ package: "0x2", module: "coin", field: name });
+
+describe('CoinMetadataRegistry', () => {
+    const A = coin("A");
+    const B = coin("B");
+    const C = coin("C");
+
+    it('fetches, caches and merges the overrides', async () => {
+        const fetched: string[] = [];
+        const fetchCoinMetadata = async (coinType: CoinType) => {
+            fetched.push(coinType.field);
+            if (MoveType.equals(coinType, C)) {
+                throw new Error("Network error");
+            }
+            if (MoveType.equals(coinType, B)) {
+                return null;
+            }
+            const metadata: CoinMetadata = { id: null, symbol: "AAA", name: "Coin A", description: "", decimals: 8, iconUrl: "https://a.png" };
+            return metadata;
+        };
+
+        const registry = new CoinMetadataRegistry({
+            fetchCoinMetadata,
+            overrides: { "0x02::coin::A": { logoUrl: "/a.svg" }, "0x2::coin::B": { symbol: "BBB", demical: 6 } }
+        });
+
+        await registry.load([A, B, C, A]);
+        await registry.load([A, B]);
+        expect(fetched).deep.equals(["A", "B", "C"]);
+        expect(registry.isLoaded(B)).equals(true);
+
+        const a = registry.getCoinUi(A);
+        expect(a.id).equals(A.str());
+        expect(a.symbol).equals("AAA");
+        expect(a.demical).equals(8);
+        expect(a.logoUrl).equals("/a.svg");
+
+        const b = registry.getCoinUi(B);
+        expect(b.symbol).equals("BBB");
+        expect(b.demical).equals(6);
+
+        // The failed fetching falls back to the struct name and is fetched again in the next loading
+        expect(registry.isLoaded(C)).equals(false);
+        expect(registry.getCoinUi(C).symbol).equals("C");
+        expect(registry.getCoinUi(C).demical).equals(undefined);
+        await registry.load([A, B, C]);
+        expect(fetched).deep.equals(["A", "B", "C", "C"]);
+    });
+});
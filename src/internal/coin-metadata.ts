@@ -0,0 +1,92 @@
+import { CoinMetadata } from "@mysten/sui.js";
+import { CoinType, CoinUiInfo, CoinUiInfoWithoutId, GetCoinUiFn } from "./common";
+import { MoveType } from "./move-type";
+
+export type FetchCoinMetadataFn = (coinType: CoinType) => Promise<CoinMetadata | null>;
+
+export type CoinUiOverrides = Record<string, Partial<CoinUiInfoWithoutId>>;
+
+export interface CoinMetadataRegistryProps {
+    fetchCoinMetadata: FetchCoinMetadataFn;
+    /// The overrides keyed by the coin type string (e.g. "0x2::sui::SUI"), which take precedence over the on-chain metadata
+    overrides?: CoinUiOverrides;
+}
+
+const normalizeCoinTypeKey = (key: string) => {
+    return MoveType.fromString(key)?.str() ?? key;
+}
+
+export class CoinMetadataRegistry {
+    fetchCoinMetadata: FetchCoinMetadataFn;
+    overrides: Map<string, Partial<CoinUiInfoWithoutId>> = new Map();
+    /// The fetched metadata, null when the coin has no metadata on chain
+    cache: Map<string, CoinMetadata | null> = new Map();
+
+    constructor(props: CoinMetadataRegistryProps) {
+        this.fetchCoinMetadata = props.fetchCoinMetadata;
+        this.setOverrides(props.overrides ?? {});
+    }
+
+    setOverride = (coinType: CoinType, ui: Partial<CoinUiInfoWithoutId>) => {
+        this.overrides.set(coinType.str(), { ...(this.overrides.get(coinType.str()) ?? {}), ...ui });
+    }
+
+    setOverrides = (overrides: CoinUiOverrides) => {
+        for (const [key, ui] of Object.entries(overrides)) {
+            const k = normalizeCoinTypeKey(key);
+            this.overrides.set(k, { ...(this.overrides.get(k) ?? {}), ...ui });
+        }
+    }
+
+    isLoaded = (coinType: CoinType) => {
+        return this.cache.has(coinType.str());
+    }
+
+    getCoinMetadata = (coinType: CoinType) => {
+        return this.cache.get(coinType.str()) ?? null;
+    }
+
+    /// Fetch the metadata for the coins not in the cache. A failed fetching is not cached, so it is fetched again in the next loading
+    load = async (coinTypes: CoinType[], force?: boolean) => {
+        const uniqTypes = Array.from(new Map(coinTypes.map(t => [t.str(), t])).values());
+        const missingTypes = (force === true) ? uniqTypes : uniqTypes.filter(t => !this.isLoaded(t));
+
+        // Undefined for the failed fetching, null when the coin has no metadata on chain
+        const metadatas = await Promise.all(missingTypes.map(async (coinType) => {
+            try {
+                return await this.fetchCoinMetadata(coinType);
+            } catch (_e) {
+                return undefined;
+            }
+        }));
+
+        missingTypes.forEach((coinType, index) => {
+            const metadata = metadatas[index];
+            if (metadata !== undefined) {
+                this.cache.set(coinType.str(), metadata);
+            }
+        });
+    }
+
+    static mapCoinMetadataToCoinUi = (metadata: CoinMetadata) => {
+        const ui: Partial<CoinUiInfoWithoutId> = {
+            symbol: metadata.symbol,
+            name: metadata.name,
+            demical: metadata.decimals,
+            logoUrl: metadata.iconUrl ?? undefined
+        };
+        return ui;
+    }
+
+    /// Get the ui info by merging the on-chain metadata and the overrides, the symbol falls back to the struct name
+    getCoinUi: GetCoinUiFn = (coinType: CoinType) => {
+        const metadata = this.getCoinMetadata(coinType);
+        const ui: CoinUiInfo = {
+            id: coinType.str(),
+            symbol: coinType.field,
+            ...((metadata !== null) ? CoinMetadataRegistry.mapCoinMetadataToCoinUi(metadata) : {}),
+            ...(this.overrides.get(coinType.str()) ?? {})
+        };
+        return ui;
+    }
+}
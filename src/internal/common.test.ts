@@ -1,6 +1,8 @@
 import { expect } from "chai";
-import { PoolInfo, PoolType, FeeDirection, ValuePerToken, SwapType } from "./common";
+import { PoolInfo, PoolType, FeeDirection, ValuePerToken, SwapType, PoolDirectionType, PoolInfoInitializeInfo, PositionInfo, DemicalFormat } from "./common";
 import { bigintPow } from "./utils";
+import { MoveType } from "./move-type";
+import { createPool } from "./test-utils";
 
 
 interface StablePoolInfoDataType {
@@ -12,6 +14,8 @@ interface StablePoolInfoDataType {
     ]
 }
 
+const zero = BigInt(0);
+
 describe('PoolInfo', () => { // the tests container
     it('checking swapXToYAmount and swapYToXAmount', () => {
         // The data is generated by the amm simulation backtesting in "aptoswap" written in (pool_test.move);
@@ -197,6 +201,410 @@ describe('PoolInfo', () => { // the tests container
             expect(pn * BigInt(info.pd)).equals(pd * BigInt(info.pn));
         }
     });
+
+    it('checking getInputAmount for exact output swapping', () => {
+        const poolInfoData = require("../../data/tests/pool_data_2.json") as Array<any>;
+        const stableInfoData = require("../../data/tests/stablepool_data_2.json") as Array<any>;
+        const one = BigInt(1);
+
+        for (const [poolType, infos] of [["v2", poolInfoData], ["stable", stableInfoData]]) {
+            for (const info of (infos as Array<any>).slice(0, 40)) {
+                const pool = createPool({
+                    swapType: poolType as SwapType,
+                    feeDirection: info[0] as FeeDirection,
+                    adminFee: BigInt(info[4]),
+                    lpFee: BigInt(info[5]),
+                    thFee: BigInt(info[6]),
+                    x: BigInt(info[2]),
+                    y: BigInt(info[3]),
+                    stableAmp: (poolType == "v2") ? zero : BigInt(info[9]),
+                    stableXScale: (poolType == "v2") ? zero : BigInt(info[10]),
+                    stableYScale: (poolType == "v2") ? zero : BigInt(info[11]),
+                });
+
+                for (const direction of ["forward", "reverse"] as PoolDirectionType[]) {
+                    const outAmount = (direction === "forward") ? BigInt(info[8]) : BigInt(info[7]);
+                    const inAmount = pool.getInputAmount(direction, outAmount);
+                    if (inAmount === null) {
+                        continue;
+                    }
+                    expect(pool.getOutputAmount(direction, inAmount) >= outAmount).equals(true);
+                    expect(pool.getOutputAmount(direction, inAmount - one) < outAmount).equals(true);
+                }
+
+                expect(pool.getXToYInputAmount(pool.y)).equals(null);
+                expect(pool.getYToXInputAmount(pool.x)).equals(null);
+            }
+        }
+    });
+
+    it('checking getSwapQuote', () => {
+        for (const feeDirection of ["X", "Y"] as FeeDirection[]) {
+            const pool = createPool({
+                feeDirection,
+                adminFee: BigInt(2),
+                lpFee: BigInt(25),
+                thFee: BigInt(3),
+                x: BigInt("100000000000"),
+                y: BigInt("200000000000000"),
+            });
+
+            const dx = BigInt("1000000000");
+            const forward = pool.getSwapQuote("forward", dx, 8, 10);
+            expect(forward.outAmount).equals(pool.getXToYAmount(dx));
+            expect(forward.lpFee.coin).equals("X");
+            expect(forward.lpFee.amount > zero).equals(true);
+            expect(forward.adminFee.coin).equals(feeDirection);
+            expect(forward.thFee.coin).equals(feeDirection);
+            expect(forward.midPriceBefore).closeTo(20.0, 1e-9);
+            expect(forward.midPriceAfter < forward.midPriceBefore).equals(true);
+            expect(forward.executionPrice < forward.midPriceBefore && forward.executionPrice > forward.midPriceAfter).equals(true);
+            expect(forward.priceImpact).closeTo((forward.midPriceBefore - forward.executionPrice) / forward.midPriceBefore, 1e-12);
+
+            const dy = BigInt("1000000000000");
+            const reverse = pool.getSwapQuote("reverse", dy, 8, 10);
+            expect(reverse.outAmount).equals(pool.getYToXAmount(dy));
+            expect(reverse.lpFee.coin).equals("Y");
+            expect(reverse.midPriceAfter > reverse.midPriceBefore).equals(true);
+            expect(reverse.executionPrice > reverse.midPriceBefore && reverse.executionPrice < reverse.midPriceAfter).equals(true);
+
+            // Swapping back with the pool after swap should not give more than the input
+            const after = pool.getPoolAfterSwap("forward", dx);
+            expect(after.getYToXAmount(forward.outAmount) < dx).equals(true);
+            expect(pool.x).equals(BigInt("100000000000"));
+        }
+    });
+
+    it('checking getSwapToPrice', () => {
+        const pools = [
+            createPool({ adminFee: BigInt(2), lpFee: BigInt(25), thFee: BigInt(3), x: BigInt("100000000000"), y: BigInt("200000000000000") }),
+            createPool({
+                swapType: "stable", feeDirection: "Y", adminFee: BigInt(2), lpFee: BigInt(25), thFee: BigInt(3),
+                x: BigInt("100000000000"), y: BigInt("1200000000000"), stableAmp: BigInt(100), stableXScale: BigInt(100), stableYScale: BigInt(1)
+            }),
+        ];
+
+        for (const pool of pools) {
+            const price = pool.getPrice(8, 10);
+            for (const target of [price * 0.9, price * 1.05]) {
+                const result = pool.getSwapToPrice(target, 8, 10)!;
+                expect(result.direction).equals((target < price) ? "forward" : "reverse");
+                expect(result.priceBefore).equals(price);
+
+                const priceBeforeTarget = pool.getPoolAfterSwap(result.direction, result.amount - BigInt(1)).getPrice(8, 10);
+                if (result.direction === "forward") {
+                    expect(result.priceAfter <= target && priceBeforeTarget > target).equals(true);
+                }
+                else {
+                    expect(result.priceAfter >= target && priceBeforeTarget < target).equals(true);
+                }
+            }
+        }
+
+        expect(pools[0].getSwapToPrice(-1.0, 8, 10)).equals(null);
+    });
+
+    it('checking getDepositLspAmount [stable]', () => {
+        const poolInfoData = require("../../data/tests/stablepool_data_1.json") as StablePoolInfoDataType;
+        const md = Math.max(poolInfoData.x_decimal, poolInfoData.y_decimal);
+
+        for (const info of poolInfoData.data) {
+            if (info.tag != 1) {
+                continue;
+            }
+
+            const pool = createPool({
+                swapType: "stable",
+                lspSupply: BigInt(info.lsp_prev),
+                x: BigInt(info.x_prev),
+                y: BigInt(info.y_prev),
+                stableAmp: BigInt(poolInfoData.amp),
+                stableXScale: bigintPow(BigInt(10), md - poolInfoData.x_decimal),
+                stableYScale: bigintPow(BigInt(10), md - poolInfoData.y_decimal),
+            });
+
+            const estimation = pool.getDepositLspAmount(BigInt(info.x) - BigInt(info.x_prev), BigInt(info.y) - BigInt(info.y_prev));
+            expect(estimation.lspAmount).equals(BigInt(info.lsp) - BigInt(info.lsp_prev));
+            expect(estimation.lspSupply).equals(BigInt(info.lsp));
+        }
+    });
+
+    it('checking getZapInEstimation', () => {
+        const pools = [
+            createPool({ adminFee: BigInt(2), lpFee: BigInt(25), thFee: BigInt(3), x: BigInt("100000000000"), y: BigInt("200000000000000"), lspSupply: BigInt("1000000000") }),
+            createPool({
+                swapType: "stable", feeDirection: "Y", adminFee: BigInt(2), lpFee: BigInt(25), thFee: BigInt(3), lspSupply: BigInt("1000000000"),
+                x: BigInt("100000000000"), y: BigInt("1200000000000"), stableAmp: BigInt(100), stableXScale: BigInt(100), stableYScale: BigInt(1)
+            }),
+        ];
+
+        for (const pool of pools) {
+            for (const direction of ["forward", "reverse"] as PoolDirectionType[]) {
+                const amount = (direction === "forward") ? BigInt("1000000000") : BigInt("10000000000");
+                const estimation = pool.getZapInEstimation(direction, amount)!;
+                const [held, deposited, swapped] = (direction === "forward")
+                    ? [amount - estimation.swapAmount, estimation.xAmount, estimation.yAmount]
+                    : [amount - estimation.swapAmount, estimation.yAmount, estimation.xAmount];
+
+                expect(estimation.swapOutAmount).equals(pool.getOutputAmount(direction, estimation.swapAmount));
+                expect(swapped <= estimation.swapOutAmount).equals(true);
+                expect(deposited <= held).equals(true);
+                // Almost nothing left after zapping in
+                expect(Number(held - deposited) / Number(amount)).lessThan(1e-6);
+                expect(Number(estimation.swapOutAmount - swapped) / Number(estimation.swapOutAmount)).lessThan(1e-6);
+                expect(estimation.lspAmount > zero).equals(true);
+            }
+        }
+    });
+
+    it('checking getLockPlan', () => {
+        const pool = createPool({
+            boostMultiplierData: [
+                { epoch: 30, boostMultiplier: BigInt(3) },
+                { epoch: 0, boostMultiplier: BigInt(1) },
+                { epoch: 7, boostMultiplier: BigInt(2) },
+            ],
+            miningSpeed: BigInt(1000),
+            miningAmpt: new ValuePerToken(BigInt(0), BigInt(1000)),
+            thRewardTotalStakeBoost: BigInt(7)
+        });
+
+        expect(pool.getBoostTiers().map(t => t.epoch)).deep.equals([0, 7, 30]);
+        expect(pool.getBoostTierForLockEpochs(10)!.boostMultiplier).equals(BigInt(2));
+        expect(pool.getBoostTierForLockEpochs(100)!.boostMultiplier).equals(BigInt(3));
+
+        const plan = pool.getLockPlan(BigInt(100), 10, BigInt(500))!;
+        expect(plan.lockEpochs).equals(7);
+        expect(plan.unlockEpoch).equals(BigInt(107));
+        expect(plan.weight).equals(BigInt(1000));
+        expect(plan.rewardPerEpoch).equals(BigInt(500));
+        expect(plan.expectedReward).equals(BigInt(3500));
+
+        const plans = pool.getLockPlans(BigInt(100), BigInt(500));
+        expect(plans.map(p => p.expectedReward)).deep.equals([BigInt(0), BigInt(3500), BigInt(18000)]);
+
+        expect(createPool({ boostMultiplierData: [{ epoch: 7, boostMultiplier: BigInt(2) }] }).getLockPlan(BigInt(0), 3)).equals(null);
+    });
+
+    it('checking getThRewardInfo and getThRewardShare', () => {
+        const props: Partial<PoolInfoInitializeInfo> = {
+            thRewardType: "Balance",
+            thRewardXSupply: BigInt(10000),
+            thRewardYSupply: BigInt(5000),
+            thRewardX: BigInt(6000),
+            thRewardY: BigInt(2000),
+            thRewardNepoch: BigInt(10),
+            thRewardStartEpcoh: BigInt(100),
+            thRewardEndEpoch: BigInt(110),
+            thRewardTotalStakeBoost: BigInt(300)
+        };
+        const pool = createPool(props);
+
+        const info = pool.getThRewardInfo(BigInt(104));
+        expect(info.active).equals(true);
+        expect(info.remainingEpochs).equals(BigInt(6));
+        expect(info.xRatePerEpoch).equals(BigInt(1000));
+        expect(info.yRatePerEpoch).equals(BigInt(500));
+        expect(info.xRemaining).equals(BigInt(6000));
+        expect(info.yRemaining).equals(BigInt(2000));
+
+        const ended = pool.getThRewardInfo(BigInt(110));
+        expect(ended.active).equals(false);
+        expect(ended.xRemaining).equals(zero);
+        expect(pool.getThRewardInfo(BigInt(90)).remainingEpochs).equals(BigInt(10));
+
+        const staked = pool.getThRewardShare(BigInt(100), BigInt(104));
+        expect(staked.share).closeTo(1 / 3, 1e-9);
+        expect(staked.xPerEpoch).equals(BigInt(333));
+        expect(staked.xExpected).equals(BigInt(2000));
+
+        const newStake = pool.getThRewardShare(BigInt(100), BigInt(104), false);
+        expect(newStake.share).closeTo(0.25, 1e-9);
+        expect(newStake.yExpected).equals(BigInt(500));
+
+        const buyBack = createPool({ ...props, thRewardType: "AutoBuyBack" });
+        expect(buyBack.getThRewardInfo(BigInt(104)).claimable).equals(false);
+        expect(buyBack.getThRewardShare(BigInt(100), BigInt(104)).xExpected).equals(zero);
+    });
+
+    it('checking getApr', () => {
+        expect(createPool({}).getApr()).equals(null);
+
+        const pool = createPool({
+            x: BigInt(1000000),
+            y: BigInt(4000000),
+            lspSupply: BigInt(2000000),
+            lpFee: BigInt(25),
+            feeDirection: "X",
+            totalTradeXLastEpoch: BigInt(200000),
+            totalTradeYLastEpoch: BigInt(800000),
+            miningSpeed: BigInt(5000000),
+        });
+
+        // 200000 * 0.25% = 500 per epoch on the liquidity worth 2000000 x
+        const apr = pool.getApr()!;
+        expect(apr.fee).closeTo(500 * 365 / 2000000, 1e-9);
+        expect(apr.mining).equals(null);
+        expect(apr.th).equals(null);
+        expect(apr.total).closeTo(apr.fee, 1e-9);
+
+        // 5 mining coins per epoch at 2.0 for the TVL of 10000
+        const withMining = pool.getApr({ tvl: 10000.0, miningCoinPrice: 2.0, miningCoinDecimal: 6 })!;
+        expect(withMining.mining).closeTo(5 * 2.0 * 365 / 10000.0, 1e-9);
+        expect(withMining.total).closeTo(withMining.fee + withMining.mining!, 1e-9);
+
+        // Half of the lsp is staked, getting 100 x and 400 y per epoch
+        const withTh = pool.clone({
+            thRewardXSupply: BigInt(1000),
+            thRewardYSupply: BigInt(4000),
+            thRewardX: BigInt(1000),
+            thRewardY: BigInt(4000),
+            thRewardNepoch: BigInt(10),
+            thRewardStartEpcoh: BigInt(0),
+            thRewardEndEpoch: BigInt(10),
+            thRewardTotalStakeAmount: BigInt(1000000),
+        }).getApr({ epoch: BigInt(5) })!;
+        expect(withTh.th).closeTo(200 * 365 / 1000000, 1e-9);
+
+        // The lp fee is taken from the input coin, so the fee direction does not matter
+        expect(pool.clone({ feeDirection: "Y" }).getApr()!.fee).closeTo(apr.fee, 1e-9);
+
+        // The stable pool values y with the stable curve price instead of the reserve ratio
+        const stable = pool.clone({ swapType: "stable", stableAmp: BigInt(10), stableXScale: BigInt(1), stableYScale: BigInt(1) });
+        const price = stable.getPrice(6, 6);
+        expect(price).not.closeTo(Number(stable.y) / Number(stable.x), 1e-3);
+        const liquidityValue = 1000000 + 4000000 / price;
+        const lpFeePerEpoch = (200000 + 800000 / price) * 0.0025 / 2;
+        expect(stable.getApr({ xDecimal: 6, yDecimal: 6 })!.fee).closeTo(lpFeePerEpoch * 365 / liquidityValue, 1e-9);
+    });
+
+    it('checking getDepositLspAmount [v2]', () => {
+        const empty = createPool({});
+        const first = empty.getDepositLspAmount(BigInt(1000000), BigInt(4000000));
+        expect(first.lspAmount).equals(BigInt(2000000));
+        expect(first.share).equals(1.0);
+
+        const pool = createPool({ x: BigInt(1000000), y: BigInt(4000000), lspSupply: BigInt(2000000) });
+        const estimation = pool.getDepositLspAmount(BigInt(1000), BigInt(5000));
+        expect(estimation.lspAmount).equals(BigInt(2000));
+        expect(estimation.share).closeTo(2000 / 2002000, 1e-12);
+    });
+});
+
+describe('PositionInfo', () => {
+    it('checking getWithdrawPreview', () => {
+        const poolInfoData = require("../../data/tests/stablepool_data_1.json") as StablePoolInfoDataType;
+
+        for (const info of poolInfoData.data) {
+            if (info.tag != 2) {
+                continue;
+            }
+
+            const pool = createPool({ swapType: "stable", lspSupply: BigInt(info.lsp_prev), x: BigInt(info.x_prev), y: BigInt(info.y_prev) });
+            const position = new PositionInfo({
+                addr: "",
+                poolInfo: pool,
+                value: BigInt(info.lsp_prev) - BigInt(info.lsp),
+                poolX: zero,
+                poolY: zero,
+                poolMiningAmpt: new ValuePerToken(zero, zero),
+                startEpoch: zero,
+                endEpoch: zero,
+                boostMultiplier: zero
+            });
+
+            const preview = position.getWithdrawPreview();
+            expect(preview.xAmount).equals(BigInt(info.x_prev) - BigInt(info.x));
+            expect(preview.yAmount).equals(BigInt(info.y_prev) - BigInt(info.y));
+            expect(preview.xFee).equals(zero);
+            expect(preview.yFee).equals(zero);
+        }
+
+        const pool = createPool({ lspSupply: BigInt(2000000), x: BigInt(1000000), y: BigInt(4000000), withdrawFee: BigInt(30) });
+        const position = new PositionInfo({
+            addr: "",
+            poolInfo: pool,
+            value: BigInt(200000),
+            poolX: zero,
+            poolY: zero,
+            poolMiningAmpt: new ValuePerToken(zero, zero),
+            startEpoch: BigInt(10),
+            endEpoch: BigInt(20),
+            boostMultiplier: zero
+        });
+
+        const preview = position.partial(DemicalFormat.fromString("0.5")!).getWithdrawPreview(BigInt(15));
+        expect(preview.lspAmount).equals(BigInt(100000));
+        expect(preview.xFee).equals(BigInt(150));
+        expect(preview.xAmount).equals(BigInt(50000 - 150));
+        expect(preview.yFee).equals(BigInt(600));
+        expect(preview.yAmount).equals(BigInt(200000 - 600));
+        expect(preview.locked).equals(true);
+        expect(position.getWithdrawPreview(BigInt(20)).locked).equals(false);
+    });
+
+    it('checking getZapOutEstimation', () => {
+        const coin = (name: string) => new MoveType({ package: "0x2", module: "coin", field: name });
+        const type = new PoolType({ xTokenType: coin("X"), yTokenType: coin("Y") });
+        const pool = createPool({ type, lspSupply: BigInt(2000000), x: BigInt(1000000), y: BigInt(4000000), lpFee: BigInt(25) });
+        const position = new PositionInfo({
+            addr: "",
+            poolInfo: pool,
+            value: BigInt(200000),
+            poolX: zero,
+            poolY: zero,
+            poolMiningAmpt: new ValuePerToken(zero, zero),
+            startEpoch: zero,
+            endEpoch: zero,
+            boostMultiplier: zero
+        });
+
+        const preview = position.getWithdrawPreview();
+        const poolAfterRemove = pool.clone({ x: pool.x - preview.xAmount, y: pool.y - preview.yAmount, lspSupply: pool.lspSupply - preview.lspAmount });
+
+        const toX = position.getZapOutEstimation(pool.type.xTokenType)!;
+        expect(toX.direction).equals("reverse");
+        expect(toX.keptAmount).equals(preview.xAmount);
+        expect(toX.swapAmount).equals(preview.yAmount);
+        expect(toX.swapOutAmount).equals(poolAfterRemove.getYToXAmount(preview.yAmount));
+        expect(toX.outAmount).equals(toX.keptAmount + toX.swapOutAmount);
+
+        const toY = position.getZapOutEstimation(pool.type.yTokenType)!;
+        expect(toY.direction).equals("forward");
+        expect(toY.swapOutAmount).equals(poolAfterRemove.getXToYAmount(preview.xAmount));
+
+        expect(position.getZapOutEstimation(coin("Other"))).equals(null);
+    });
+
+    it('checking getPendingMiningReward', () => {
+        // 3 per weight with the total weight 400
+        const ampt = new ValuePerToken(BigInt(1200), BigInt(400));
+        const pool = createPool({ miningSpeed: BigInt(1000), miningAmpt: ampt, miningLastEpoch: BigInt(100), thRewardTotalStakeBoost: BigInt(7) });
+        const createPosition = (value: bigint, boostMultiplier: bigint, poolMiningAmpt: ValuePerToken) => new PositionInfo({
+            addr: "",
+            poolInfo: pool,
+            value,
+            poolX: zero,
+            poolY: zero,
+            poolMiningAmpt,
+            startEpoch: zero,
+            endEpoch: zero,
+            boostMultiplier
+        });
+
+        // The weights are 100 * 1 and 150 * 2, adding up to the total weight of the mining, the token holder total is not used
+        const p1 = createPosition(BigInt(100), BigInt(1), ampt);
+        const p2 = createPosition(BigInt(150), BigInt(2), new ValuePerToken(BigInt(1), BigInt(1)));
+
+        expect(pool.getMiningTotalWeight()).equals(BigInt(400));
+        expect(p1.getPendingMiningReward()).equals(zero);
+        expect(p2.getPendingMiningReward()).equals(BigInt(600));
+        expect(pool.getMiningAmptAtEpoch(BigInt(99))).equals(ampt);
+
+        // 10 epochs mine 10000, shared by the weights 100 : 300
+        expect(p1.getPendingMiningReward(BigInt(110))).equals(BigInt(2500));
+        expect(p2.getPendingMiningReward(BigInt(110))).equals(BigInt(600 + 7500));
+    });
 });
 
 describe('ValuePerToken', () => {
@@ -1,8 +1,11 @@
 import { formatNumeric } from "./format";
-import { BigIntConstants } from "./constants";
-import { bigintPow, StableSwapHelper } from "./utils";
+import { BigIntConstants, NumberLimit } from "./constants";
+import { bigintPow, bigintSqrt, StableSwapHelper } from "./utils";
 import { Client } from "./client";
 import { MoveType } from "./move-type";
+import { Slippage } from "./slippage";
+import { TransactionOperation } from "./transaction";
+import { PriceOracle } from "./oracle";
 
 export function uniqArray<T>(array: Array<T>): Array<T> {
     return Array.from(new Set(array));
@@ -265,11 +268,171 @@ export class PositionInfo {
         ];
     }
 
+    /// Preview the coins received when removing the position (or the partial of it with ratio), the withdraw fee of the pool
+    /// is taken from both x and y. When the epoch is provided, locked tells whether the position is still locked.
+    getWithdrawPreview = (epoch?: bigint) => {
+        const pool = this.poolInfo;
+        const lspAmount = this.balance();
+
+        let xAmount = BigIntConstants.ZERO;
+        let yAmount = BigIntConstants.ZERO;
+        if (pool.lspSupply > BigIntConstants.ZERO) {
+            xAmount = lspAmount * pool.x / pool.lspSupply;
+            yAmount = lspAmount * pool.y / pool.lspSupply;
+        }
+
+        const xFee = xAmount * pool.withdrawFee / PoolInfo.BPS_SCALING;
+        const yFee = yAmount * pool.withdrawFee / PoolInfo.BPS_SCALING;
+
+        const preview: PositionWithdrawPreview = {
+            lspAmount,
+            xAmount: xAmount - xFee,
+            yAmount: yAmount - yFee,
+            xFee,
+            yFee,
+            locked: (epoch !== undefined) ? (epoch < this.endEpoch) : false
+        };
+        return preview;
+    }
+
+    /// The weight of the position in the mining, which is the lsp value multiplied by the boost multiplier of the lock
+    getMiningWeight = () => {
+        return this.value * this.boostMultiplier;
+    }
+
+    /// The pending (unclaimed) mining reward of the position, projecting the mining accumulator of the pool to the given epoch.
+    /// When the epoch is not provided, the reward is computed with the accumulator stored in the pool.
+    getPendingMiningReward = (epoch?: bigint) => {
+        const pool = this.poolInfo;
+        const poolMiningAmpt = (epoch !== undefined) ? pool.getMiningAmptAtEpoch(epoch) : pool.miningAmpt;
+        return ValuePerToken.diff(poolMiningAmpt, this.poolMiningAmpt, this.getMiningWeight());
+    }
+
+    /// Estimate removing the position and swapping the other coin into the given coin, the swap is computed with the pool
+    /// after removing the liquidity. The removal and the swap are submitted as two transactions, as the removed coins are
+    /// transferred to the sender.
+    getZapOutEstimation = (coinType: CoinType) => {
+        const pool = this.poolInfo;
+        const direction: PoolDirectionType | null = MoveType.equals(coinType, pool.type.xTokenType)
+            ? "reverse"
+            : (MoveType.equals(coinType, pool.type.yTokenType) ? "forward" : null);
+        if (direction === null) {
+            return null;
+        }
+
+        const preview = this.getWithdrawPreview();
+        if (preview.xAmount <= BigIntConstants.ZERO || preview.yAmount <= BigIntConstants.ZERO) {
+            return null;
+        }
+
+        // The withdraw fee remains in the pool
+        const poolAfterRemove = pool.clone({
+            x: pool.x - preview.xAmount,
+            y: pool.y - preview.yAmount,
+            lspSupply: pool.lspSupply - preview.lspAmount
+        });
+        if (!poolAfterRemove.isAvaliableForSwap()) {
+            return null;
+        }
+
+        const [keptAmount, swapAmount] = (direction === "forward") ? [preview.yAmount, preview.xAmount] : [preview.xAmount, preview.yAmount];
+        const swapOutAmount = poolAfterRemove.getOutputAmount(direction, swapAmount);
+
+        const estimation: PositionZapOutEstimation = {
+            direction,
+            keptAmount,
+            swapAmount,
+            swapOutAmount,
+            outAmount: keptAmount + swapOutAmount
+        };
+        return estimation;
+    }
+
     getUuid: () => string = () => {
         return `${this.addr}`
     }
 }
 
+export interface PositionWithdrawPreview {
+    lspAmount: bigint;
+    /// The amount received, after the withdraw fee
+    xAmount: bigint;
+    yAmount: bigint;
+    xFee: bigint;
+    yFee: bigint;
+    locked: boolean;
+}
+
+export interface PositionZapOutEstimation {
+    /// The direction of the swap after removing the liquidity
+    direction: PoolDirectionType;
+    keptAmount: bigint;
+    swapAmount: bigint;
+    swapOutAmount: bigint;
+    /// The total amount of the coin received
+    outAmount: bigint;
+}
+
+export interface PoolLockPlan {
+    lockEpochs: number;
+    /// The unlock epoch for TransactionOperation.AddLiquidity
+    unlockEpoch: bigint;
+    boostMultiplier: bigint;
+    /// The mining weight, which is the lsp amount multiplied by the boost multiplier
+    weight: bigint;
+    rewardPerEpoch: bigint;
+    /// The mining reward during the lock
+    expectedReward: bigint;
+}
+
+export interface PoolThRewardInfo {
+    type: TokenHolderRewardType;
+    active: boolean;
+    remainingEpochs: bigint;
+    xRatePerEpoch: bigint;
+    yRatePerEpoch: bigint;
+    /// The reward remaining to be distributed
+    xRemaining: bigint;
+    yRemaining: bigint;
+    /// Whether the reward is claimable by the stakers, which is false for AutoBuyBack
+    claimable: boolean;
+}
+
+export interface PoolThRewardShare {
+    weight: bigint;
+    /// The share of the stake in the total stake boost, from 0 to 1
+    share: number;
+    xPerEpoch: bigint;
+    yPerEpoch: bigint;
+    /// The expected reward for the rest of the distribution
+    xExpected: bigint;
+    yExpected: bigint;
+}
+
+export interface PoolAprProps {
+    /// The number of epochs in a year, default to 365 as one epoch is about one day
+    epochsPerYear?: number;
+    /// The epoch for the token holder reward, default to the last mining epoch of the pool
+    epoch?: bigint;
+    /// The decimals of the coins for the price of the stable pools, same as PoolInfo.getPrice, default to 0
+    xDecimal?: number;
+    yDecimal?: number;
+    /// The TVL of the pool (e.g. from PoolInfo.getTvl), needed for the mining APR
+    tvl?: number | null;
+    miningCoinPrice?: number;
+    miningCoinDecimal?: number;
+}
+
+export interface PoolAprBreakdown {
+    /// The APR from the lp fee, computed with the trade volume of the last epoch
+    fee: number;
+    /// The APR from the mining reward, null when the price is not provided
+    mining: number | null;
+    /// The APR for the staked lsp from the token holder reward, null when there's no claimable reward
+    th: number | null;
+    total: number;
+}
+
 export interface PoolBoostMultiplierData {
     epoch: number,
     boostMultiplier: bigint
@@ -330,6 +493,7 @@ export interface PoolInfoInitializeInfo {
 export class PoolInfo {
 
     static BPS_SCALING: bigint = BigInt("10000");
+    static DEFAULT_EPOCHS_PER_YEAR = 365;
 
     addr: string; 
     typeString: string; 
@@ -381,12 +545,13 @@ export class PoolInfo {
     miningAmpt: ValuePerToken;
     miningLastEpoch: bigint;
 
-    _fAdmin: number
-    _fLp: number
-    _fTh: number;
-    _aAdmin: number;
-    _aLp: number;
-    _aTh: number;
+    /// The fee factors derived from the fees, see updateFeeFactors
+    _fAdmin: number = 0.0;
+    _fLp: number = 0.0;
+    _fTh: number = 0.0;
+    _aAdmin: number = 1.0;
+    _aLp: number = 1.0;
+    _aTh: number = 1.0;
 
     constructor(props: PoolInfoInitializeInfo) {
         this.addr = props.addr;
@@ -431,12 +596,17 @@ export class PoolInfo {
         this.miningAmpt = props.miningAmpt;
         this.miningLastEpoch = props.miningLastEpoch;
 
+        this.updateFeeFactors();
+    }
+
+    /// Derive the fee factors from adminFee, lpFee and thFee, call it after updating the fees
+    updateFeeFactors = () => {
         this._fAdmin = Number(this.adminFee) / 10000.0;
         this._fLp = Number(this.lpFee) / 10000.0;
         this._fTh = Number(this.thFee) / 10000.0;
         this._aAdmin = 1.0 - this._fAdmin;
         this._aLp = 1.0 - this._fLp;
-        this._aTh = 1.0 - this._fTh;;
+        this._aTh = 1.0 - this._fTh;
     }
 
     static equals = (a: PoolInfo, b: PoolInfo) => {
@@ -525,93 +695,378 @@ export class PoolInfo {
     }
 
     getXToYAmount = (dx: bigint) => {
-        const X = this.x;
-        const Y = this.y;
-        const feeDirection = this.feeDirection;
-        const adminFee = this.adminFee;
-        const thFee = this.thFee;
-        const lpFee = this.lpFee;
+        return this._getSwapDetail("forward", dx).outAmount;
+    }
 
-        if (feeDirection == "X") {
-            const dfee = dx * adminFee / PoolInfo.BPS_SCALING
-            dx -= dfee
+    getYToXAmount = (dy: bigint) => {
+        return this._getSwapDetail("reverse", dy).outAmount;
+    }
+
+    getOutputAmount = (direction: PoolDirectionType, amount: bigint) => {
+        return (direction === "forward") ? this.getXToYAmount(amount) : this.getYToXAmount(amount);
+    }
+
+    getXToYInputAmount = (dy: bigint) => {
+        return this.getInputAmount("forward", dy);
+    }
 
-            const dfee_th_x = dx * thFee / PoolInfo.BPS_SCALING;
-            dx -= dfee_th_x
+    getYToXInputAmount = (dx: bigint) => {
+        return this.getInputAmount("reverse", dx);
+    }
+
+    /// Get the minimum input amount so that swapping it gives at least outAmount, return null when it is impossible.
+    /// Instead of inverting the formula, we search on the output amount function directly so that
+    /// the fee handling and the integer rounding are always the same as swapping.
+    getInputAmount = (direction: PoolDirectionType, outAmount: bigint) => {
+        if (outAmount <= BigIntConstants.ZERO) {
+            return BigIntConstants.ZERO;
         }
 
-        const dx_lp = (dx * lpFee) / PoolInfo.BPS_SCALING
-        dx -= dx_lp;
-        
-        let dy = (this.swapType == "v2") ? this._computeAmount(dx, X, Y) : this._computeAmountStable(dx, X, Y, this.stableXScale, this.stableYScale);
+        const reserve = (direction === "forward") ? this.y : this.x;
+        if (outAmount >= reserve) {
+            return null;
+        }
 
-        if (feeDirection == "Y") {
-            const dfee = dy * adminFee / PoolInfo.BPS_SCALING
-            dy -= dfee
+        let lo = BigIntConstants.ZERO;
+        let hi = BigIntConstants.ONE;
+        while (this.getOutputAmount(direction, hi) < outAmount) {
+            lo = hi;
+            hi = hi * BigIntConstants.TWO;
+            if (lo > NumberLimit.U64_MAX) {
+                return null;
+            }
+        }
 
-            const dfee_th_y = dy * thFee / PoolInfo.BPS_SCALING
-            dy -= dfee_th_y
+        // Invariant: output(lo) < outAmount <= output(hi)
+        while (hi - lo > BigIntConstants.ONE) {
+            const mid = (lo + hi) / BigIntConstants.TWO;
+            if (this.getOutputAmount(direction, mid) >= outAmount) {
+                hi = mid;
+            }
+            else {
+                lo = mid;
+            }
         }
 
-        return dy;
+        return (hi > NumberLimit.U64_MAX) ? null : hi;
     }
 
-    getYToXAmount = (dy: bigint) => {
-        const X = this.x;
-        const Y = this.y;
+    getSwapQuote = (direction: PoolDirectionType, amount: bigint, xDecimal: number, yDecimal: number, slippage?: Slippage | number) => {
+        const detail = this._getSwapDetail(direction, amount);
+        const outAmount = detail.outAmount;
+
+        const midPriceBefore = this.getPrice(xDecimal, yDecimal);
+        const midPriceAfter = this.getPoolAfterSwap(direction, amount).getPrice(xDecimal, yDecimal);
+
+        // Execution price is also defined as the Y per X, the same as the mid price
+        const [xAmount, yAmount] = (direction === "forward") ? [amount, outAmount] : [outAmount, amount];
+        const executionPrice = (xAmount > BigIntConstants.ZERO) ? (Number(yAmount) / (10 ** yDecimal)) / (Number(xAmount) / (10 ** xDecimal)) : 0.0;
+        // Price impact includes the fees, which is the actual loss compared with the mid price
+        const priceImpact = (midPriceBefore > 0.0 && executionPrice > 0.0) ? Math.abs(executionPrice - midPriceBefore) / midPriceBefore : 0.0;
+
+        const quote: SwapQuote = {
+            direction,
+            inAmount: amount,
+            outAmount,
+            midPriceBefore,
+            midPriceAfter,
+            executionPrice,
+            priceImpact,
+            adminFee: detail.adminFee,
+            thFee: detail.thFee,
+            lpFee: detail.lpFee,
+            minOutputAmount: (slippage !== undefined) ? Slippage.from(slippage).getMinOutputAmount(outAmount) : undefined
+        };
+        return quote;
+    }
+
+    /// Get the swap which moves the pool price (in the same unit of getPrice) to the target price, fees are included since
+    /// the price is computed with the pool balances after swapping. The amount returned is the minimum amount that reaches
+    /// or crosses the target price, return null when the target price cannot be reached.
+    getSwapToPrice = (targetPrice: number, xDecimal: number, yDecimal: number) => {
+        if (!this.isAvaliableForSwap() || !(targetPrice > 0.0) || !Number.isFinite(targetPrice)) {
+            return null;
+        }
+
+        const priceBefore = this.getPrice(xDecimal, yDecimal);
+        // Swapping X to Y decreases the price (Y per X) while swapping Y to X increases it
+        const direction: PoolDirectionType = (targetPrice < priceBefore) ? "forward" : "reverse";
+        const isReached = (amount: bigint) => {
+            const price = this.getPoolAfterSwap(direction, amount).getPrice(xDecimal, yDecimal);
+            return (direction === "forward") ? (price <= targetPrice) : (price >= targetPrice);
+        }
+
+        let lo = BigIntConstants.ZERO;
+        let hi = BigIntConstants.ZERO;
+        if (!isReached(hi)) {
+            hi = BigIntConstants.ONE;
+            while (!isReached(hi)) {
+                lo = hi;
+                hi = hi * BigIntConstants.TWO;
+                if (hi > NumberLimit.U64_MAX) {
+                    return null;
+                }
+            }
+
+            // Invariant: isReached(lo) == false, isReached(hi) == true
+            while (hi - lo > BigIntConstants.ONE) {
+                const mid = (lo + hi) / BigIntConstants.TWO;
+                if (isReached(mid)) {
+                    hi = mid;
+                }
+                else {
+                    lo = mid;
+                }
+            }
+        }
+
+        const result: PoolSwapToPriceResult = {
+            direction,
+            amount: hi,
+            outAmount: this.getOutputAmount(direction, hi),
+            priceBefore,
+            priceAfter: this.getPoolAfterSwap(direction, hi).getPrice(xDecimal, yDecimal)
+        };
+        return result;
+    }
+
+    /// Get a new pool info with the balances after swapping, the original pool info is not changed
+    getPoolAfterSwap = (direction: PoolDirectionType, amount: bigint) => {
+        const detail = this._getSwapDetail(direction, amount);
+        return (direction === "forward")
+            ? this.clone({ x: this.x + detail.poolInAmount, y: this.y - detail.poolOutAmount })
+            : this.clone({ x: this.x - detail.poolOutAmount, y: this.y + detail.poolInAmount });
+    }
+
+    clone = (props?: Partial<PoolInfoInitializeInfo>) => {
+        return new PoolInfo({ ...(this as PoolInfoInitializeInfo), ...(props ?? {}) });
+    }
+
+    _getSwapDetail = (direction: PoolDirectionType, amount: bigint) => {
+        const inCoin: FeeDirection = (direction === "forward") ? "X" : "Y";
+        const outCoin: FeeDirection = (direction === "forward") ? "Y" : "X";
         const feeDirection = this.feeDirection;
         const adminFee = this.adminFee;
         const thFee = this.thFee;
         const lpFee = this.lpFee;
 
-        if (feeDirection == "Y") {
-            const dfee = dy * adminFee / PoolInfo.BPS_SCALING
-            dy -= dfee
+        let dAdmin = BigIntConstants.ZERO;
+        let dTh = BigIntConstants.ZERO;
+        let din = amount;
+
+        if (feeDirection == inCoin) {
+            dAdmin = din * adminFee / PoolInfo.BPS_SCALING;
+            din -= dAdmin;
 
-            const dfee_th_y = dy * thFee / PoolInfo.BPS_SCALING
-            dy -= dfee_th_y
+            dTh = din * thFee / PoolInfo.BPS_SCALING;
+            din -= dTh;
         }
 
-        const dy_lp = (dy * lpFee) / PoolInfo.BPS_SCALING
-        dy -= dy_lp
-        
-        let dx = (this.swapType == "v2") ? this._computeAmount(dy, Y, X) : this._computeAmountStable(dy, Y, X, this.stableYScale, this.stableXScale);
-        if (feeDirection == "X") {
-            const dfee = dx * adminFee / PoolInfo.BPS_SCALING
-            dx -= dfee
+        // The admin fee and th fee are moved out of the pool, the lp fee remains in the pool
+        const poolInAmount = din;
+
+        const dLp = (din * lpFee) / PoolInfo.BPS_SCALING;
+        din -= dLp;
+
+        const dout = (direction === "forward")
+            ? ((this.swapType == "v2") ? this._computeAmount(din, this.x, this.y) : this._computeAmountStable(din, this.x, this.y, this.stableXScale, this.stableYScale))
+            : ((this.swapType == "v2") ? this._computeAmount(din, this.y, this.x) : this._computeAmountStable(din, this.y, this.x, this.stableYScale, this.stableXScale));
+        const poolOutAmount = dout;
+
+        let outAmount = dout;
+        if (feeDirection == outCoin) {
+            dAdmin = outAmount * adminFee / PoolInfo.BPS_SCALING;
+            outAmount -= dAdmin;
+
+            dTh = outAmount * thFee / PoolInfo.BPS_SCALING;
+            outAmount -= dTh;
+        }
+
+        return {
+            outAmount,
+            poolInAmount,
+            poolOutAmount,
+            adminFee: { coin: feeDirection, amount: dAdmin } as SwapQuoteFee,
+            thFee: { coin: feeDirection, amount: dTh } as SwapQuoteFee,
+            lpFee: { coin: inCoin, amount: dLp } as SwapQuoteFee
+        };
+    }
+
+    /// Slippage could be either a Slippage or a ratio number (e.g. 0.005 for 0.5%)
+    getXToYMinOutputAmount = (dx: bigint, slippage: Slippage | number) => {
+        return this.getMinOutputAmount("forward", dx, slippage);
+    }
+
+    getYToXMinOutputAmount = (dy: bigint, slippage: Slippage | number) => {
+        return this.getMinOutputAmount("reverse", dy, slippage);
+    }
+
+    getMinOutputAmount = (direction: PoolDirectionType, amount: bigint, slippage: Slippage | number) => {
+        return Slippage.from(slippage).getMinOutputAmount(this.getOutputAmount(direction, amount));
+    }
+
+    getXToYMaxInputAmount = (dy: bigint, slippage: Slippage | number) => {
+        return this.getMaxInputAmount("forward", dy, slippage);
+    }
+
+    getYToXMaxInputAmount = (dx: bigint, slippage: Slippage | number) => {
+        return this.getMaxInputAmount("reverse", dx, slippage);
+    }
+
+    getMaxInputAmount = (direction: PoolDirectionType, outAmount: bigint, slippage: Slippage | number) => {
+        const inAmount = this.getInputAmount(direction, outAmount);
+        return (inAmount === null) ? null : Slippage.from(slippage).getMaxInputAmount(inAmount);
+    }
+
+    getSwapOperation = (direction: PoolDirectionType, amount: bigint, slippage: Slippage | number) => {
+        const operation: TransactionOperation.Swap = {
+            operation: "swap",
+            pool: this,
+            direction,
+            amount,
+            minOutputAmount: this.getMinOutputAmount(direction, amount, slippage)
+        };
+        return operation;
+    }
+
+    /// The available boost tiers sorted by the lock duration (in epochs) from the shortest to the longest
+    getBoostTiers = () => {
+        return [...(this.boostMultiplierData ?? [])].sort((a, b) => a.epoch - b.epoch);
+    }
 
-            const dfee_th_x = dx * thFee / PoolInfo.BPS_SCALING
-            dx -= dfee_th_x
+    /// Get the tier for the desired lock duration, which is the longest tier not exceeding the duration. Returns null
+    /// when the duration is shorter than all the tiers.
+    getBoostTierForLockEpochs = (lockEpochs: number) => {
+        let tier: PoolBoostMultiplierData | null = null;
+        for (const t of this.getBoostTiers()) {
+            if (t.epoch <= lockEpochs) {
+                tier = t;
+            }
         }
+        return tier;
+    }
 
-        return dx;
+    /// Plan the lock for adding the lsp amount with the tier. The expected reward is the mining reward during the lock,
+    /// assuming the mining speed and the weights of other positions (see getMiningTotalWeight) do not change.
+    _getLockPlanForTier = (tier: PoolBoostMultiplierData, currentEpoch: bigint, lspAmount: bigint) => {
+        const lockEpochs = BigInt(tier.epoch);
+        const weight = lspAmount * tier.boostMultiplier;
+        const totalWeight = this.getMiningTotalWeight() + weight;
+        const rewardPerEpoch = (totalWeight > BigIntConstants.ZERO) ? (this.miningSpeed * weight / totalWeight) : BigIntConstants.ZERO;
+
+        const plan: PoolLockPlan = {
+            lockEpochs: tier.epoch,
+            unlockEpoch: currentEpoch + lockEpochs,
+            boostMultiplier: tier.boostMultiplier,
+            weight,
+            rewardPerEpoch,
+            expectedReward: rewardPerEpoch * lockEpochs
+        };
+        return plan;
     }
 
-    getXToYMinOutputAmount = (dx: bigint, slippage: number) => {
-        const dy = this.getXToYAmount(dx);
-        return dy * BigInt(Math.round((10 ** 9) * (1.0 - slippage))) / BigIntConstants._1E9;
+    /// Map the desired lock duration to the unlock epoch used by adding liquidity, the duration is rounded down to the tier
+    getLockPlan = (currentEpoch: bigint, lockEpochs: number, lspAmount?: bigint) => {
+        const tier = this.getBoostTierForLockEpochs(lockEpochs);
+        return (tier === null) ? null : this._getLockPlanForTier(tier, currentEpoch, lspAmount ?? BigIntConstants.ZERO);
     }
 
-    getYToXMinOutputAmount = (dy: bigint, slippage: number) => {
-        const dx = this.getYToXAmount(dy);
-        return dx * BigInt(Math.round((10 ** 9) * (1.0 - slippage))) / BigIntConstants._1E9;
+    /// Get the lock plans of all the tiers for comparing the expected reward against the lock duration
+    getLockPlans = (currentEpoch: bigint, lspAmount: bigint) => {
+        return this.getBoostTiers().map(tier => this._getLockPlanForTier(tier, currentEpoch, lspAmount));
     }
 
-    getTvl = (client: Client, primaryCoinPrice: number, xCoinUi: CoinUiInfo, yCoinUi: CoinUiInfo) => {
-        return this._volumeToValue(client, primaryCoinPrice, Number(this.x), Number(this.y), xCoinUi, yCoinUi);
+    /// Get the token holder reward schedule at the epoch. The supplies are distributed evenly in nepoch epochs from the
+    /// start epoch, the remaining is capped by the reward balance still held by the pool.
+    getThRewardInfo = (epoch: bigint) => {
+        const zero = BigIntConstants.ZERO;
+        const nepoch = this.thRewardNepoch;
+
+        let remainingEpochs = zero;
+        if (epoch < this.thRewardStartEpcoh) {
+            remainingEpochs = nepoch;
+        }
+        else if (epoch < this.thRewardEndEpoch) {
+            remainingEpochs = this.thRewardEndEpoch - epoch;
+        }
+
+        const xRatePerEpoch = (nepoch > zero) ? (this.thRewardXSupply / nepoch) : zero;
+        const yRatePerEpoch = (nepoch > zero) ? (this.thRewardYSupply / nepoch) : zero;
+        const min = (a: bigint, b: bigint) => (a < b) ? a : b;
+
+        const info: PoolThRewardInfo = {
+            type: this.thRewardType,
+            active: (epoch >= this.thRewardStartEpcoh) && (epoch < this.thRewardEndEpoch),
+            remainingEpochs,
+            xRatePerEpoch,
+            yRatePerEpoch,
+            xRemaining: min(this.thRewardX, xRatePerEpoch * remainingEpochs),
+            yRemaining: min(this.thRewardY, yRatePerEpoch * remainingEpochs),
+            // With AutoBuyBack, the reward is used for buying back instead of being distributed to the stakers
+            claimable: this.thRewardType === "Balance"
+        };
+        return info;
+    }
+
+    /// Get the expected token holder reward of the stake with the weight (stake amount multiplied by the boost multiplier).
+    /// When the stake is not included in the total stake boost of the pool yet (e.g. a new stake), set isStaked to false.
+    getThRewardShare = (weight: bigint, epoch: bigint, isStaked?: boolean) => {
+        const zero = BigIntConstants.ZERO;
+        const info = this.getThRewardInfo(epoch);
+        const totalWeight = (isStaked ?? true) ? this.thRewardTotalStakeBoost : (this.thRewardTotalStakeBoost + weight);
+
+        const share = (totalWeight > zero) ? (Number(weight) / Number(totalWeight)) : 0.0;
+        const portion = (amount: bigint) => (info.claimable && totalWeight > zero) ? (amount * weight / totalWeight) : zero;
+
+        const result: PoolThRewardShare = {
+            weight,
+            share,
+            xPerEpoch: portion(info.xRatePerEpoch),
+            yPerEpoch: portion(info.yRatePerEpoch),
+            xExpected: portion(info.xRemaining),
+            yExpected: portion(info.yRemaining)
+        };
+        return result;
+    }
+
+    /// The total weight of the positions in the mining (lsp value multiplied by the boost multiplier), which is the amount
+    /// of the mining accumulator, so that sum / amount is the reward mined per unit of weight. It is not the total stake
+    /// boost of the token holder reward, which only counts the positions staked for the token holder reward.
+    getMiningTotalWeight = () => {
+        return this.miningAmpt.amount;
     }
 
-    getTradeVolumne24h = (client: Client, primaryCoinPrice: number, xCoinUi: CoinUiInfo, yCoinUi: CoinUiInfo) => {
+    /// Project the mining accumulator to the given epoch. The speed is the reward mined per epoch, which is shared by the
+    /// positions according to their weights, assuming the total weight does not change after the last epoch.
+    getMiningAmptAtEpoch = (epoch: bigint) => {
+        const totalWeight = this.getMiningTotalWeight();
+        if (epoch <= this.miningLastEpoch || this.miningSpeed <= BigIntConstants.ZERO || totalWeight <= BigIntConstants.ZERO) {
+            return this.miningAmpt;
+        }
+
+        // (sum + reward) / amount = sum / amount + reward / totalWeight
+        const reward = this.miningSpeed * (epoch - this.miningLastEpoch);
+        return new ValuePerToken(this.miningAmpt.sum + reward, totalWeight);
+    }
+
+    getTvl = (client: Client, primaryCoinPrice: number, xCoinUi: CoinUiInfo, yCoinUi: CoinUiInfo, oracle?: PriceOracle) => {
+        return this._volumeToValue(client, primaryCoinPrice, Number(this.x), Number(this.y), xCoinUi, yCoinUi, oracle);
+    }
+
+    getTradeVolumne24h = (client: Client, primaryCoinPrice: number, xCoinUi: CoinUiInfo, yCoinUi: CoinUiInfo, oracle?: PriceOracle) => {
         const x = (this.totalTradeXCurrentEpoch > this.totalTradeXLastEpoch) ? this.totalTradeXCurrentEpoch : this.totalTradeXLastEpoch;
         const y = (this.totalTradeYCurrentEpoch > this.totalTradeYLastEpoch) ? this.totalTradeYCurrentEpoch : this.totalTradeYLastEpoch;
-        return this._volumeToValue(client, primaryCoinPrice, Number(x), Number(y), xCoinUi, yCoinUi);
+        return this._volumeToValue(client, primaryCoinPrice, Number(x), Number(y), xCoinUi, yCoinUi, oracle);
     }
 
-    getTradeVolumne = (client: Client, primaryCoinPrice: number, xCoinUi: CoinUiInfo, yCoinUi: CoinUiInfo) => {
-        return this._volumeToValue(client, primaryCoinPrice, Number(this.totalTradeX), Number(this.totalTradeY), xCoinUi, yCoinUi);
+    getTradeVolumne = (client: Client, primaryCoinPrice: number, xCoinUi: CoinUiInfo, yCoinUi: CoinUiInfo, oracle?: PriceOracle) => {
+        return this._volumeToValue(client, primaryCoinPrice, Number(this.totalTradeX), Number(this.totalTradeY), xCoinUi, yCoinUi, oracle);
     }
 
-    _volumeToValue = (client: Client, primaryCoinPrice: number, tx: number, ty: number, xCoinUi: CoinUiInfo, yCoinUi: CoinUiInfo) => {
+    /// The coins are priced by the primary coin price and the stable coins first, then by the oracle, which defaults to the
+    /// price oracle of the client when not provided
+    _volumeToValue = (client: Client, primaryCoinPrice: number, tx: number, ty: number, xCoinUi: CoinUiInfo, yCoinUi: CoinUiInfo, oracle?: PriceOracle) => {
+        const priceOracle = oracle ?? client.getPriceOracle() ?? undefined;
         const xDecimal = xCoinUi.demical ?? 0;
         const yDecimal = yCoinUi.demical ?? 0;
 
@@ -641,6 +1096,11 @@ export class PoolInfo {
             py = 1.0;
         }
 
+        if (priceOracle !== undefined) {
+            px = px ?? priceOracle.getPrice(this.type.xTokenType);
+            py = py ?? priceOracle.getPrice(this.type.yTokenType);
+        }
+
         if (px !== null && py === null) {
             py = px / price;
         }
@@ -655,67 +1115,54 @@ export class PoolInfo {
         return null;
     }
 
-    getApr = () => {
-        // TODO
-        return null;
-        // const startTime = this.totalTrade24hLastCaptureTime;
-        // const endTime = this.lastTradeTime;
-
-        // if (this.x <= BigIntConstants.ZERO || this.y <= BigIntConstants.ZERO || endTime <= startTime) {
-        //     return null;
-        // }
-
-        // const fee = Number(this.totalLpFee()) / 10000;
-
-        // const fn = (tx: number, x: number, st: number, et: number) => {
-        //     // Note: The 0.5 here is because we add both trade for x and y when swapping x to y. But the lp fee is only taken from x
-        //     const tf = Number(tx) / (et - st) * 86400 * (fee * 0.5); // Total fee generate in one day
-        //     const apr = (tf / x) * 365;
-        //     return apr;
-        // }
-
-        // const aprX = fn(Number(this.totalTradeX24h), Number(this.x), startTime, endTime);
-        // const aprY = fn(Number(this.totalTradeY24h), Number(this.y), startTime, endTime);
-
-        // return (aprX + aprY) * 0.5;
-
-        // const st = this.kspSma.start_time;
-        // const ct = this.kspSma.current_time;
-
-        // if (st < 1) { 
-        //     // When st == 0, means no initialized
-        //     return null;
-        // }
-
-        // let vs = [
-        //     (ct >= st + (0 * 86400)) ? (Number(this.kspSma.a0 * BigIntConstants._1E8 / this.kspSma.c0) / 1e16) : null,
-        //     (ct >= st + (1 * 86400)) ? (Number(this.kspSma.a1 * BigIntConstants._1E8 / this.kspSma.c1) / 1e16) : null,
-        //     (ct >= st + (2 * 86400)) ? (Number(this.kspSma.a2 * BigIntConstants._1E8 / this.kspSma.c2) / 1e16) : null,
-        //     (ct >= st + (3 * 86400)) ? (Number(this.kspSma.a3 * BigIntConstants._1E8 / this.kspSma.c3) / 1e16) : null,
-        //     (ct >= st + (4 * 86400)) ? (Number(this.kspSma.a4 * BigIntConstants._1E8 / this.kspSma.c4) / 1e16) : null,
-        //     (ct >= st + (5 * 86400)) ? (Number(this.kspSma.a5 * BigIntConstants._1E8 / this.kspSma.c5) / 1e16) : null,
-        //     (ct >= st + (6 * 86400)) ? (Number(this.kspSma.a6 * BigIntConstants._1E8 / this.kspSma.c6) / 1e16) : null
-        // ].filter(x => x !== null) as number[];
-
-        // if (vs.length < 2) {
-        //     // Cannot diff
-        //     return null;
-        // }
-
-        // let dpyc: number = 0.0; // Daily percentage yield (total)
-        // let dpyn: number = 0.0; // Counter
-        // for (let i = 1; i < vs.length; ++i) {
-        //     dpyc += vs[i] - vs[i - 1];
-        //     dpyn += 1.0;
-        // }
-
-        // const currentKPerLsp = vs[0];
-        // const targetKPerLsp = currentKPerLsp + Math.max(0.0, dpyc / dpyn) * 365.0;
-        
-        // const relAbs = targetKPerLsp / currentKPerLsp; // Relative K increase
-        // const relNormalized = Math.sqrt(relAbs); // Relative sqrt(K) increase, could be treated as the x increase or y increase since K = x * y
+    /// Get the APR breakdown of the pool, the fee APR and the token holder APR are valued with the pool price so no
+    /// external price is needed, while the mining APR is only given when both the TVL and the mining coin price are provided.
+    /// Returns null when the pool is empty.
+    getApr = (props?: PoolAprProps) => {
+        if (!this.isInitialized() || this.lspSupply <= BigIntConstants.ZERO) {
+            return null;
+        }
 
-        // return relNormalized - 1.0;
+        const epochsPerYear = props?.epochsPerYear ?? PoolInfo.DEFAULT_EPOCHS_PER_YEAR;
+        const xDecimal = props?.xDecimal ?? 0;
+        const yDecimal = props?.yDecimal ?? 0;
+
+        // Value the coins in x with the current price (y per x), converted from the visual space into the raw amounts
+        const price = this.getPrice(xDecimal, yDecimal) * (10 ** yDecimal) / (10 ** xDecimal);
+        if (price <= 0.0) {
+            return null;
+        }
+        const toX = (xAmount: number, yAmount: number) => xAmount + yAmount / price;
+        const liquidityValue = toX(Number(this.x), Number(this.y));
+
+        // Both the input and the output of a swap are recorded in the trade volume, which are about the same value, and the
+        // lp fee is always taken from the input coin regardless of the fee direction, so the lp fee is on half of the volume
+        const fLp = Number(this.lpFee) / Number(PoolInfo.BPS_SCALING);
+        const lpFeePerEpoch = toX(Number(this.totalTradeXLastEpoch), Number(this.totalTradeYLastEpoch)) * fLp / 2.0;
+        const fee = lpFeePerEpoch * epochsPerYear / liquidityValue;
+
+        // The token holder reward only goes to the staked lsp
+        let th: number | null = null;
+        const epoch = props?.epoch ?? this.miningLastEpoch;
+        const thInfo = this.getThRewardInfo(epoch);
+        const stakeValue = liquidityValue * Number(this.thRewardTotalStakeAmount) / Number(this.lspSupply);
+        if (thInfo.claimable && thInfo.active && stakeValue > 0.0) {
+            th = toX(Number(thInfo.xRatePerEpoch), Number(thInfo.yRatePerEpoch)) * epochsPerYear / stakeValue;
+        }
+
+        let mining: number | null = null;
+        if (props?.tvl !== undefined && props?.tvl !== null && props.tvl > 0.0 && props.miningCoinPrice !== undefined) {
+            const miningPerEpoch = Number(this.miningSpeed) / (10 ** (props.miningCoinDecimal ?? 0));
+            mining = miningPerEpoch * props.miningCoinPrice * epochsPerYear / props.tvl;
+        }
+
+        const apr: PoolAprBreakdown = {
+            fee,
+            mining,
+            th,
+            total: fee + (mining ?? 0.0) + (th ?? 0.0)
+        };
+        return apr;
     }
 
     getDepositXAmount = (y: bigint) => {
@@ -750,6 +1197,93 @@ export class PoolInfo {
         return [x, y];
     }
 
+    /// Estimate the LSP minted by depositing x and y into the pool, the amounts are taken as they are, use getDepositAmount first
+    /// to get the proportional amounts for the v2 pool.
+    ///     - First deposit: sqrt(x) * sqrt(y)
+    ///     - v2 pool: min(x / X, y / Y) * lspSupply
+    ///     - Stable pool: (D1 - D0) / D0 * lspSupply, where D is the stable invariant with the scaled balances
+    getDepositLspAmount = (x: bigint, y: bigint) => {
+        let lspAmount = BigIntConstants.ZERO;
+
+        if (x <= BigIntConstants.ZERO || y <= BigIntConstants.ZERO) {
+            lspAmount = BigIntConstants.ZERO;
+        }
+        else if (!this.isInitialized() || this.lspSupply === BigIntConstants.ZERO) {
+            lspAmount = bigintSqrt(x) * bigintSqrt(y);
+        }
+        else if (this.swapType == "v2") {
+            const lx = x * this.lspSupply / this.x;
+            const ly = y * this.lspSupply / this.y;
+            lspAmount = (lx < ly) ? lx : ly;
+        }
+        else {
+            const d0 = StableSwapHelper.computeD(this.x * this.stableXScale, this.y * this.stableYScale, this.stableAmp);
+            const d1 = StableSwapHelper.computeD((this.x + x) * this.stableXScale, (this.y + y) * this.stableYScale, this.stableAmp);
+            lspAmount = (d1 > d0 && d0 > BigIntConstants.ZERO) ? this.lspSupply * (d1 - d0) / d0 : BigIntConstants.ZERO;
+        }
+
+        const lspSupply = this.lspSupply + lspAmount;
+        const estimation: PoolDepositEstimation = {
+            lspAmount,
+            lspSupply,
+            share: (lspSupply > BigIntConstants.ZERO) ? Number(lspAmount) / Number(lspSupply) : 0.0
+        };
+        return estimation;
+    }
+
+    /// Estimate zapping in with only one coin, which swaps part of the coin into the other one and then deposits both of them.
+    /// The swap amount is chosen so that the coin held and the coin swapped out matches the ratio of the pool after swapping,
+    /// so the curve and fees are all considered. The direction is "forward" when holding X and "reverse" when holding Y.
+    /// The swap and the deposit are submitted as two transactions, as the swap functions transfer the output coin to the sender.
+    getZapInEstimation = (direction: PoolDirectionType, amount: bigint, swapAmount?: bigint) => {
+        if (!this.isAvaliableForSwap() || amount <= BigIntConstants.ZERO) {
+            return null;
+        }
+
+        const estimate = (s: bigint) => {
+            const swapOutAmount = this.getOutputAmount(direction, s);
+            const poolAfterSwap = this.getPoolAfterSwap(direction, s);
+            const heldAmount = amount - s;
+            const [xAmount, yAmount] = (direction === "forward")
+                ? poolAfterSwap.getDepositAmount(heldAmount, swapOutAmount)
+                : poolAfterSwap.getDepositAmount(swapOutAmount, heldAmount);
+            const estimation: PoolZapInEstimation = {
+                swapAmount: s,
+                swapOutAmount,
+                xAmount,
+                yAmount,
+                lspAmount: poolAfterSwap.getDepositLspAmount(xAmount, yAmount).lspAmount
+            };
+            return estimation;
+        }
+
+        if (swapAmount !== undefined) {
+            return (swapAmount > BigIntConstants.ZERO && swapAmount < amount) ? estimate(swapAmount) : null;
+        }
+
+        // g(s) = held * poolOut' - out * poolIn', which is decreasing on s, and the best swap amount is where g(s) crosses zero
+        const g = (s: bigint) => {
+            const swapOutAmount = this.getOutputAmount(direction, s);
+            const poolAfterSwap = this.getPoolAfterSwap(direction, s);
+            const [poolIn, poolOut] = (direction === "forward") ? [poolAfterSwap.x, poolAfterSwap.y] : [poolAfterSwap.y, poolAfterSwap.x];
+            return (amount - s) * poolOut - swapOutAmount * poolIn;
+        }
+
+        let lo = BigIntConstants.ZERO;
+        let hi = amount;
+        while (hi - lo > BigIntConstants.ONE) {
+            const mid = (lo + hi) / BigIntConstants.TWO;
+            if (g(mid) > BigIntConstants.ZERO) {
+                lo = mid;
+            }
+            else {
+                hi = mid;
+            }
+        }
+
+        return (hi > BigIntConstants.ZERO && hi < amount) ? estimate(hi) : null;
+    }
+
     isInitialized = () => {
         return (this.x > BigIntConstants.ZERO) && (this.y > BigIntConstants.ZERO);
     }
@@ -789,13 +1323,63 @@ export class PoolInfo {
     }
 }
 
+export interface SwapQuoteFee {
+    /// The coin which the fee is taken from
+    coin: FeeDirection;
+    amount: bigint;
+}
+
+export interface SwapQuote {
+    direction: PoolDirectionType;
+    inAmount: bigint;
+    outAmount: bigint;
+    /// Prices are the same as PoolInfo.getPrice, which is the Y per X with decimals
+    midPriceBefore: number;
+    midPriceAfter: number;
+    executionPrice: number;
+    priceImpact: number;
+    adminFee: SwapQuoteFee;
+    thFee: SwapQuoteFee;
+    lpFee: SwapQuoteFee;
+    /// Only presented when the slippage is provided
+    minOutputAmount?: bigint;
+}
+
+export interface PoolDepositEstimation {
+    lspAmount: bigint;
+    /// The LSP supply after deposit
+    lspSupply: bigint;
+    /// The share of the minted LSP in the LSP supply after deposit
+    share: number;
+}
+
+export interface PoolZapInEstimation {
+    swapAmount: bigint;
+    swapOutAmount: bigint;
+    /// The amounts deposited into the pool
+    xAmount: bigint;
+    yAmount: bigint;
+    lspAmount: bigint;
+}
+
+export interface PoolSwapToPriceResult {
+    direction: PoolDirectionType;
+    amount: bigint;
+    outAmount: bigint;
+    priceBefore: number;
+    priceAfter: number;
+}
+
 export interface CommonTransaction {
     id: string;
+    /// The sequence of the event in the transaction, when the transaction is decoded from the event
+    eventSeq?: number;
     href: string;
     type: "swap" | "deposit" | "withdraw";
     success: boolean;
     data: SwapTransactionData | DepositTransactionData   | WithdrawTransactionData;
     timestamp: number;
+    poolId?: AddressType;
 }
 
 export interface SwapTransactionData {
@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import { normalizeSuiObjectId as nid } from "@mysten/sui.js";
+import { SuiswapStreamEvent } from "./event-stream";
+import { createClient, createCoinType, createLiquidityEvent, createPool, createPoolType, createSwapEvent, setFakeProvider } from "./test-utils";
+
+const PACKAGE = nid("0x1234");
+const POOL = nid("0x51");
+
+const createStreamPool = () => {
+    return createPool({ addr: POOL, type: createPoolType(createCoinType("X"), createCoinType("Y")) });
+}
+
+const createEvent = (i: number) => {
+    const props = { packageAddr: PACKAGE, poolId: POOL, digest: `tx${i}`, timestamp: i, sender: `0x${i}` };
+    return (i % 2 === 0) ? createSwapEvent(props) : createLiquidityEvent({ ...props, isAdded: true });
+}
+
+describe('SuiswapEventStream', () => {
+    const pools = [createStreamPool()];
+
+    it('polls and emits the new events in order', async () => {
+        const events = [1, 2, 3, 4, 5].map(createEvent);
+        const client = createClient({ packageAddr: PACKAGE });
+        const { queries } = setFakeProvider(client, { events, pageSize: 2, repeatCursorEvent: true });
+
+        const stream = client.subscribeEvents({ pools });
+        const received: SuiswapStreamEvent[] = [];
+        const unsubscribe = stream.on(e => received.push(e));
+
+        const emitted = await stream.poll();
+        expect(emitted.map(e => e.transaction.id)).deep.equals(["tx1", "tx2", "tx3", "tx4", "tx5"]);
+        expect(received.length).equals(5);
+        expect(received[1].transaction.type).equals("swap");
+        expect(queries[0].query).deep.equals({ MoveModule: { package: PACKAGE, module: "pool" } });
+
+        // New events arrive later, the repeated one is skipped
+        events.push(createEvent(6));
+        unsubscribe();
+        expect((await stream.poll()).map(e => e.transaction.id)).deep.equals(["tx6"]);
+        expect(received.length).equals(5);
+        expect(stream.getCursor()!.txDigest).equals("tx6");
+    });
+
+    it('resumes from the cursor or the latest event', async () => {
+        const events = [1, 2, 3, 4].map(createEvent);
+        const client = createClient({ packageAddr: PACKAGE });
+        setFakeProvider(client, { events, pageSize: 10 });
+
+        const resumed = client.subscribeEvents({ pools, cursor: events[1].id });
+        expect((await resumed.poll()).map(e => e.transaction.id)).deep.equals(["tx3", "tx4"]);
+
+        const latest = client.subscribeEvents({ pools, fromLatest: true });
+        expect((await latest.poll()).length).equals(0);
+        events.push(createEvent(5));
+        expect((await latest.poll()).map(e => e.transaction.id)).deep.equals(["tx5"]);
+    });
+
+    it('keeps emitting when a listener throws', async () => {
+        const events = [1, 2, 3].map(createEvent);
+        const client = createClient({ packageAddr: PACKAGE });
+        setFakeProvider(client, { events, pageSize: 2 });
+
+        const stream = client.subscribeEvents({ pools });
+        const received: string[] = [];
+        const errors: unknown[] = [];
+        stream.on(() => { throw new Error("listener error"); });
+        stream.on(e => received.push(e.transaction.id));
+        stream.onError(e => errors.push(e));
+
+        expect((await stream.poll()).length).equals(3);
+        expect(received).deep.equals(["tx1", "tx2", "tx3"]);
+        expect(errors.length).equals(3);
+    });
+
+    it('starts and stops polling', async () => {
+        const events = [1, 2].map(createEvent);
+        const client = createClient({ packageAddr: PACKAGE });
+        setFakeProvider(client, { events, pageSize: 10 });
+
+        const stream = client.subscribeEvents({ pools, pollInterval: 5 });
+        const received: string[] = [];
+        stream.on(e => received.push(e.transaction.id));
+
+        // Resolved by the listener once the count of the received events is reached, instead of sleeping
+        const waitForReceived = (count: number) => new Promise<void>(resolve => {
+            const off = stream.on(() => {
+                if (received.length >= count) {
+                    off();
+                    resolve();
+                }
+            });
+        });
+
+        const first = waitForReceived(2);
+        stream.start();
+        expect(stream.isRunning()).equals(true);
+        await first;
+
+        const second = waitForReceived(3);
+        events.push(createEvent(3));
+        await second;
+        stream.stop();
+
+        expect(stream.isRunning()).equals(false);
+        expect(received).deep.equals(["tx1", "tx2", "tx3"]);
+    });
+});
@@ -0,0 +1,183 @@
+import { EventId, PaginatedEvents } from "@mysten/sui.js";
+import { CommonTransaction, PoolInfo } from "./common";
+import { SuiswapClient } from "./suiswap-client";
+
+export interface SuiswapStreamEvent {
+    eventId: EventId;
+    transaction: CommonTransaction;
+}
+
+export type SuiswapEventListener = (event: SuiswapStreamEvent) => void;
+export type SuiswapEventErrorListener = (error: unknown) => void;
+
+export interface SuiswapEventStreamProps {
+    client: SuiswapClient;
+    /// The pools for decoding the events, fetched from the client when starting if not provided
+    pools?: PoolInfo[];
+    /// Resume from the persisted cursor, the events after the cursor are emitted
+    cursor?: EventId | null;
+    /// Start from the latest event when there's no cursor, otherwise all the history events are emitted
+    fromLatest?: boolean;
+    /// The polling interval in milliseconds
+    pollInterval?: number;
+    /// The max number of events in one query
+    limit?: number;
+}
+
+/// Poll the swap and liquidity events of the whole package and emit them to the listeners in the order they happened
+export class SuiswapEventStream {
+    static DEFAULT_POLL_INTERVAL = 3000;
+    static DEFAULT_LIMIT = 100;
+    static MAX_SEEN_EVENT_IDS = 10000;
+
+    client: SuiswapClient;
+    pools: PoolInfo[] | null;
+    cursor: EventId | null;
+    fromLatest: boolean;
+    pollInterval: number;
+    limit: number;
+
+    listeners: Set<SuiswapEventListener> = new Set();
+    errorListeners: Set<SuiswapEventErrorListener> = new Set();
+    seenEventIds: Set<string> = new Set();
+    running: boolean = false;
+    timer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(props: SuiswapEventStreamProps) {
+        this.client = props.client;
+        this.pools = props.pools ?? null;
+        this.cursor = props.cursor ?? null;
+        this.fromLatest = props.fromLatest ?? false;
+        this.pollInterval = props.pollInterval ?? SuiswapEventStream.DEFAULT_POLL_INTERVAL;
+        this.limit = props.limit ?? SuiswapEventStream.DEFAULT_LIMIT;
+    }
+
+    static getEventKey = (eventId: EventId) => {
+        return `${eventId.txDigest}:${eventId.eventSeq}`;
+    }
+
+    /// Add the listener, returns the function for removing the listener
+    on = (listener: SuiswapEventListener) => {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    onError = (listener: SuiswapEventErrorListener) => {
+        this.errorListeners.add(listener);
+        return () => { this.errorListeners.delete(listener); };
+    }
+
+    /// The cursor of the last emitted event, persist it for resuming the stream later
+    getCursor = () => {
+        return this.cursor;
+    }
+
+    setPools = (pools: PoolInfo[]) => {
+        this.pools = pools;
+    }
+
+    _queryEvents = (cursor: EventId | null, limit: number, order: "ascending" | "descending") => {
+        const query = { MoveModule: { package: this.client.getPackageAddress(), module: "pool" } };
+        return this.client.provider.queryEvents({ query, cursor, limit, order }) as Promise<PaginatedEvents>;
+    }
+
+    _prepare = async () => {
+        if (this.pools === null) {
+            this.pools = await this.client.getPools();
+        }
+
+        if (this.cursor === null && this.fromLatest) {
+            const latest = await this._queryEvents(null, 1, "descending");
+            this.cursor = (latest.data.length > 0) ? latest.data[0].id : null;
+            this.fromLatest = false;
+        }
+    }
+
+    _markSeen = (key: string) => {
+        this.seenEventIds.add(key);
+        if (this.seenEventIds.size > SuiswapEventStream.MAX_SEEN_EVENT_IDS) {
+            // Sets keep the insertion order, drop the oldest one
+            const oldest = this.seenEventIds.values().next().value as string;
+            this.seenEventIds.delete(oldest);
+        }
+    }
+
+    /// The error of one listener is sent to the error listeners, so the other listeners still receive the event
+    _emit = (event: SuiswapStreamEvent) => {
+        this.listeners.forEach(listener => {
+            try {
+                listener(event);
+            } catch (e) {
+                this.errorListeners.forEach(errorListener => errorListener(e));
+            }
+        });
+    }
+
+    /// Fetch and emit all the new events since the cursor, returns the emitted events
+    poll = async () => {
+        await this._prepare();
+
+        const emitted: SuiswapStreamEvent[] = [];
+        while (true) {
+            const page = await this._queryEvents(this.cursor, this.limit, "ascending");
+
+            for (const event of page.data) {
+                this.cursor = event.id;
+
+                const key = SuiswapEventStream.getEventKey(event.id);
+                if (this.seenEventIds.has(key)) {
+                    continue;
+                }
+                this._markSeen(key);
+
+                const transaction = this.client.mapEventToCommonTransaction(event, this.pools!);
+                if (transaction === null) {
+                    continue;
+                }
+
+                const streamEvent: SuiswapStreamEvent = { eventId: event.id, transaction };
+                emitted.push(streamEvent);
+                this._emit(streamEvent);
+            }
+
+            if (!page.hasNextPage || page.data.length === 0) {
+                break;
+            }
+        }
+
+        return emitted;
+    }
+
+    /// Start polling periodically, the errors are sent to the error listeners and the polling continues
+    start = () => {
+        if (this.running) {
+            return;
+        }
+        this.running = true;
+
+        const loop = async () => {
+            try {
+                await this.poll();
+            } catch (e) {
+                this.errorListeners.forEach(listener => listener(e));
+            }
+
+            if (this.running) {
+                this.timer = setTimeout(loop, this.pollInterval);
+            }
+        }
+        loop();
+    }
+
+    stop = () => {
+        this.running = false;
+        if (this.timer !== null) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    isRunning = () => {
+        return this.running;
+    }
+}
@@ -0,0 +1,38 @@
+import { expect } from "chai";
+import { SuiConstants } from "./constants";
+import { ExplorerProviders } from "./explorer";
+import { SuiswapClient } from "./suiswap-client";
+
+describe('ExplorerProvider', () => {
+    it('formats the links with the network', () => {
+        const sui = ExplorerProviders.SUI_EXPLORER;
+        expect(sui.getTransactionHref("AbC123", "mainnet")).equals("https://suiexplorer.com/txblock/AbC123?network=mainnet");
+        expect(sui.getAddressHref("0x12", "testnet")).equals("https://suiexplorer.com/address/0x12?network=testnet");
+        expect(sui.getCoinTypeHref(SuiConstants.SUI_COIN_TYPE, "devnet")).equals(`https://suiexplorer.com/object/${SuiConstants.SUI_COIN_TYPE.package}?network=devnet`);
+
+        const suiscan = ExplorerProviders.SUISCAN;
+        expect(suiscan.getObjectHref("0x34", "testnet")).equals("https://suiscan.xyz/testnet/object/0x34");
+        expect(suiscan.getCoinTypeHref(SuiConstants.SUI_COIN_TYPE, "mainnet")).equals(`https://suiscan.xyz/mainnet/coin/${SuiConstants.SUI_COIN_TYPE.str()}`);
+
+        expect(ExplorerProviders.SUIVISION.getTransactionHref("AbC123", "testnet")).equals("https://testnet.suivision.xyz/txblock/AbC123");
+    });
+
+    it('uses the network of the client', () => {
+        const props = {
+            packageAddr: "0x1",
+            swapCapId: "0x1",
+            tokenCapId: "0x1",
+            tokenBankId: "0x1",
+            poolRegistryId: "0x1",
+            testTokenSupplyId: "0x1",
+            owner: "0x1",
+        };
+
+        const testnet = new SuiswapClient({ ...props, endpoint: "https://fullnode.testnet.sui.io:443" });
+        expect(testnet.getExplorerHrefForTxHash("AbC123")).equals("https://suiexplorer.com/txblock/AbC123?network=testnet");
+        expect(testnet.getExplorerHrefForTxHash("AbC123", "mainnet")).equals("https://suiexplorer.com/txblock/AbC123?network=mainnet");
+
+        const local = new SuiswapClient({ ...props, endpoint: "http://127.0.0.1:9000", network: "devnet", explorerProvider: ExplorerProviders.SUISCAN });
+        expect(local.getExplorerHrefForAddress("0x12")).equals("https://suiscan.xyz/devnet/account/0x12");
+    });
+});
@@ -0,0 +1,93 @@
+import { AddressType, CoinType, EndPointType, PoolInfo, TxHashType } from "./common";
+
+export interface ExplorerProvider {
+    name: string;
+    getTransactionHref: (txHash: TxHashType, network: EndPointType) => string;
+    getObjectHref: (objectId: AddressType, network: EndPointType) => string;
+    getAddressHref: (accountAddr: AddressType, network: EndPointType) => string;
+    getCoinTypeHref: (coinType: CoinType, network: EndPointType) => string;
+    getPoolHref: (pool: PoolInfo, network: EndPointType) => string;
+}
+
+/// The template of the explorer links, the paths could use the placeholders:
+/// - {network}: the network, e.g. "mainnet"
+/// - {id}: the transaction digest, the object id, the account address or the coin type
+/// - {package}: the package of the coin type (only for the coin path)
+export interface ExplorerTemplate {
+    name: string;
+    baseUrls: Record<EndPointType, string>;
+    transaction: string;
+    object: string;
+    address: string;
+    coin: string;
+}
+
+export class TemplateExplorerProvider implements ExplorerProvider {
+    template: ExplorerTemplate;
+    name: string;
+
+    constructor(template: ExplorerTemplate) {
+        this.template = template;
+        this.name = template.name;
+    }
+
+    _format = (path: string, network: EndPointType, values: Record<string, string>) => {
+        const replaced = Object.entries({ network, ...values }).reduce(
+            (p, [key, value]) => p.split(`{${key}}`).join(encodeURIComponent(value).replace(/%3A/gi, ":")),
+            path
+        );
+        return this.template.baseUrls[network] + replaced;
+    }
+
+    getTransactionHref = (txHash: TxHashType, network: EndPointType) => {
+        return this._format(this.template.transaction, network, { id: txHash });
+    }
+
+    getObjectHref = (objectId: AddressType, network: EndPointType) => {
+        return this._format(this.template.object, network, { id: objectId });
+    }
+
+    getAddressHref = (accountAddr: AddressType, network: EndPointType) => {
+        return this._format(this.template.address, network, { id: accountAddr });
+    }
+
+    getCoinTypeHref = (coinType: CoinType, network: EndPointType) => {
+        return this._format(this.template.coin, network, { id: coinType.str(), package: coinType.package });
+    }
+
+    getPoolHref = (pool: PoolInfo, network: EndPointType) => {
+        return this.getObjectHref(pool.addr, network);
+    }
+}
+
+export class ExplorerProviders {
+    static SUI_EXPLORER = new TemplateExplorerProvider({
+        name: "Sui Explorer",
+        baseUrls: { mainnet: "https://suiexplorer.com", testnet: "https://suiexplorer.com", devnet: "https://suiexplorer.com" },
+        transaction: "/txblock/{id}?network={network}",
+        object: "/object/{id}?network={network}",
+        address: "/address/{id}?network={network}",
+        // There's no coin page, use the package of the coin instead
+        coin: "/object/{package}?network={network}",
+    });
+
+    static SUISCAN = new TemplateExplorerProvider({
+        name: "Suiscan",
+        baseUrls: { mainnet: "https://suiscan.xyz", testnet: "https://suiscan.xyz", devnet: "https://suiscan.xyz" },
+        transaction: "/{network}/tx/{id}",
+        object: "/{network}/object/{id}",
+        address: "/{network}/account/{id}",
+        coin: "/{network}/coin/{id}",
+    });
+
+    static SUIVISION = new TemplateExplorerProvider({
+        name: "SuiVision",
+        baseUrls: { mainnet: "https://suivision.xyz", testnet: "https://testnet.suivision.xyz", devnet: "https://devnet.suivision.xyz" },
+        transaction: "/txblock/{id}",
+        object: "/object/{id}",
+        address: "/account/{id}",
+        coin: "/coin/{id}",
+    });
+
+    static DEFAULT = ExplorerProviders.SUI_EXPLORER;
+}
@@ -0,0 +1,50 @@
+import { expect } from "chai";
+import { ChainNames } from "./constants";
+import { SuiswapDeploymentRegistry } from "./network";
+import { SuiswapClient } from "./suiswap-client";
+
+const deployment = {
+    packageAddr: "0x1a2b",
+    swapCapId: "0x3c4d",
+    tokenCapId: "0x5e6f",
+    tokenBankId: "0x7a8b",
+    poolRegistryId: "0x9c0d",
+    testTokenSupplyId: "0xe1f2",
+    owner: "0xabcd",
+};
+
+describe('SuiswapDeploymentRegistry', () => {
+    afterEach(() => {
+        SuiswapDeploymentRegistry.deployments.clear();
+    });
+
+    it('validates the deployments', () => {
+        expect(SuiswapDeploymentRegistry.validate(deployment).length).equals(0);
+        expect(SuiswapDeploymentRegistry.validate({ ...deployment, swapCapId: "0xzz", owner: undefined }).length).equals(2);
+        expect(() => SuiswapDeploymentRegistry.register("mainnet", { ...deployment, tokenBankId: "abc" })).throws();
+        expect(() => SuiswapDeploymentRegistry.toChainName("localnet" as any)).throws();
+        expect(SuiswapDeploymentRegistry.toChainName("testnet")).equals(ChainNames.SUI_TESTNET);
+    });
+
+    it('loads the config in json and yaml', () => {
+        const json = JSON.stringify({ "sui:testnet": { ...deployment, endpoint: "http://127.0.0.1:9000" } });
+        expect(SuiswapDeploymentRegistry.parseConfig(json).get(ChainNames.SUI_TESTNET)!.endpoint).equals("http://127.0.0.1:9000");
+
+        const yaml = ["mainnet:", ...Object.entries(deployment).map(([k, v]) => `  ${k}: "${v}"`)].join("\n");
+        SuiswapDeploymentRegistry.loadConfig(yaml, "yaml");
+        expect(SuiswapDeploymentRegistry.get(ChainNames.SUI_MAINNET)!.poolRegistryId).equals(deployment.poolRegistryId);
+        expect(SuiswapDeploymentRegistry.getEndpoint("mainnet")).equals(SuiswapDeploymentRegistry.DEFAULT_ENDPOINTS[ChainNames.SUI_MAINNET]);
+
+        expect(() => SuiswapDeploymentRegistry.parseConfig(JSON.stringify({ mainnet: { ...deployment, packageAddr: "0x" } }))).throws();
+    });
+
+    it('creates the client from the network', () => {
+        expect(() => SuiswapClient.fromNetwork("devnet")).throws();
+
+        SuiswapDeploymentRegistry.register(ChainNames.SUI_DEVNET, deployment);
+        const client = SuiswapClient.fromNetwork("devnet", { endpoint: "http://127.0.0.1:9000" });
+        expect(client.endpoint).equals("http://127.0.0.1:9000");
+        expect(client.getPackageAddress()).equals(SuiswapClient.fromNetwork(ChainNames.SUI_DEVNET).packageAddr);
+        expect(SuiswapClient.fromNetwork("devnet").endpoint).equals(SuiswapDeploymentRegistry.DEFAULT_ENDPOINTS[ChainNames.SUI_DEVNET]);
+    });
+});
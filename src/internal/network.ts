@@ -0,0 +1,140 @@
+import YAML from "yaml";
+import { AddressType, EndPointType } from "./common";
+import { ChainNames } from "./constants";
+
+export interface SuiswapDeployment {
+    packageAddr: AddressType;
+    swapCapId: AddressType;
+    tokenCapId: AddressType;
+    tokenBankId: AddressType;
+    poolRegistryId: AddressType;
+    testTokenSupplyId: AddressType;
+    owner: AddressType;
+    /// The fullnode endpoint, default to the public fullnode of the network
+    endpoint?: string;
+}
+
+export type SuiswapNetwork = ChainNames | EndPointType;
+
+export type SuiswapDeploymentConfigFormat = "json" | "yaml";
+
+const SUISWAP_DEPLOYMENT_ID_KEYS: Array<keyof SuiswapDeployment> = [
+    "packageAddr", "swapCapId", "tokenCapId", "tokenBankId", "poolRegistryId", "testTokenSupplyId", "owner"
+];
+
+/// The registry of the Suiswap deployments keyed by the network. No deployment is shipped with the sdk, populate the
+/// registry with register, loadConfig or loadConfigFile before SuiswapClient.fromNetwork. Only the public fullnode
+/// endpoints are preset.
+export class SuiswapDeploymentRegistry {
+    static DEFAULT_ENDPOINTS: Record<ChainNames, string> = {
+        [ChainNames.SUI_DEVNET]: "https://fullnode.devnet.sui.io:443",
+        [ChainNames.SUI_TESTNET]: "https://fullnode.testnet.sui.io:443",
+        [ChainNames.SUI_MAINNET]: "https://fullnode.mainnet.sui.io:443",
+    };
+
+    /// The registered deployments, empty until populated
+    static deployments: Map<ChainNames, SuiswapDeployment> = new Map();
+
+    static toChainName = (network: SuiswapNetwork) => {
+        if (Object.values(ChainNames).includes(network as ChainNames)) {
+            return network as ChainNames;
+        }
+
+        const chainName = `sui:${network}` as ChainNames;
+        if (!Object.values(ChainNames).includes(chainName)) {
+            throw new Error(`Unknown network: ${network}`);
+        }
+        return chainName;
+    }
+
+    static isValidId = (id: any) => {
+        return typeof id === "string" && /^0x[0-9a-fA-F]{1,64}$/.test(id);
+    }
+
+    /// Validate the deployment, returns the list of the errors (empty when the deployment is valid)
+    static validate = (deployment: any) => {
+        if (typeof deployment !== "object" || deployment === null) {
+            return ["The deployment should be an object"];
+        }
+
+        const errors: string[] = [];
+        for (const key of SUISWAP_DEPLOYMENT_ID_KEYS) {
+            if (!SuiswapDeploymentRegistry.isValidId(deployment[key])) {
+                errors.push(`Invalid ${key}: ${deployment[key]}`);
+            }
+        }
+        if (deployment.endpoint !== undefined && typeof deployment.endpoint !== "string") {
+            errors.push(`Invalid endpoint: ${deployment.endpoint}`);
+        }
+        return errors;
+    }
+
+    static register = (network: SuiswapNetwork, deployment: SuiswapDeployment) => {
+        const errors = SuiswapDeploymentRegistry.validate(deployment);
+        if (errors.length > 0) {
+            throw new Error(`Invalid deployment for ${network}: ${errors.join("; ")}`);
+        }
+        SuiswapDeploymentRegistry.deployments.set(SuiswapDeploymentRegistry.toChainName(network), deployment);
+    }
+
+    static get = (network: SuiswapNetwork) => {
+        return SuiswapDeploymentRegistry.deployments.get(SuiswapDeploymentRegistry.toChainName(network)) ?? null;
+    }
+
+    static getEndpoint = (network: SuiswapNetwork) => {
+        const chainName = SuiswapDeploymentRegistry.toChainName(network);
+        return SuiswapDeploymentRegistry.deployments.get(chainName)?.endpoint ?? SuiswapDeploymentRegistry.DEFAULT_ENDPOINTS[chainName];
+    }
+
+    /// Parse the deployments from the config, which maps the networks (e.g. "sui:mainnet" or "mainnet") to the deployments:
+    ///
+    /// mainnet:
+    ///   packageAddr: "0x..."
+    ///   swapCapId: "0x..."
+    ///   ...
+    static parseConfig = (content: string, format?: SuiswapDeploymentConfigFormat) => {
+        const data = ((format ?? "json") === "json") ? JSON.parse(content) : YAML.parse(content);
+        if (typeof data !== "object" || data === null) {
+            throw new Error("The deployment config should be an object");
+        }
+
+        const deployments = new Map<ChainNames, SuiswapDeployment>();
+        const errors: string[] = [];
+        for (const [network, deployment] of Object.entries<any>(data)) {
+            let chainName: ChainNames;
+            try {
+                chainName = SuiswapDeploymentRegistry.toChainName(network as SuiswapNetwork);
+            } catch (e) {
+                errors.push((e as Error).message);
+                continue;
+            }
+
+            const deploymentErrors = SuiswapDeploymentRegistry.validate(deployment);
+            if (deploymentErrors.length > 0) {
+                errors.push(...deploymentErrors.map(err => `${network}: ${err}`));
+                continue;
+            }
+            deployments.set(chainName, deployment as SuiswapDeployment);
+        }
+
+        if (errors.length > 0) {
+            throw new Error(`Invalid deployment config: ${errors.join("; ")}`);
+        }
+        return deployments;
+    }
+
+    /// Register the deployments in the config
+    static loadConfig = (content: string, format?: SuiswapDeploymentConfigFormat) => {
+        const deployments = SuiswapDeploymentRegistry.parseConfig(content, format);
+        deployments.forEach((deployment, chainName) => SuiswapDeploymentRegistry.deployments.set(chainName, deployment));
+        return deployments;
+    }
+
+    /// Register the deployments in the config file (node only), the format is decided by the extension
+    static loadConfigFile = async (path: string) => {
+        const fs = await import("fs");
+        const content = await fs.promises.readFile(path, "utf-8");
+        const format: SuiswapDeploymentConfigFormat = (/\.ya?ml$/i.test(path)) ? "yaml" : "json";
+        return SuiswapDeploymentRegistry.loadConfig(content, format);
+    }
+}
@@ -0,0 +1,104 @@
+import { expect } from "chai";
+import { CoinType, CoinUiInfo } from "./common";
+import { MoveType } from "./move-type";
+import { FixedPriceOracle, JsonPriceOracle, PoolPriceOracle } from "./oracle";
+import { SuiConstants } from "./constants";
+import { createClient, createCoinType, createPool, createPoolType } from "./test-utils";
+
+const createOraclePool = (addr: string, x: MoveType, y: MoveType, X: bigint, Y: bigint) => {
+    return createPool({ addr, type: createPoolType(x, y), x: X, y: Y });
+}
+
+describe('PriceOracle', () => {
+    const USDC = createCoinType("USDC");
+    const A = createCoinType("A");
+    const B = createCoinType("B");
+    const C = createCoinType("C");
+
+    const getCoinUi = (coinType: CoinType) => {
+        const ui: CoinUiInfo = {
+            id: coinType.str(),
+            symbol: coinType.field,
+            demical: MoveType.equals(coinType, USDC) ? 6 : 9,
+            extensions: MoveType.equals(coinType, USDC) ? { stableCoin: "usdc" } : undefined
+        };
+        return ui;
+    }
+
+    it('fixed and json oracles', () => {
+        const fixed = FixedPriceOracle.fromPrices([{ coinType: A, price: 2.5 }]);
+        expect(fixed.getPrice(A)).equals(2.5);
+        expect(fixed.getPrice(B)).equals(null);
+
+        // The coin type strings are normalized
+        const json = new JsonPriceOracle({ data: { "0x2::coin::B": 3.0, "0x02::coin::C": 4.0, "0x2::coin::A": NaN } });
+        expect(json.getPrice(B)).equals(3.0);
+        expect(json.getPrice(C)).equals(4.0);
+        expect(json.getPrice(A)).equals(null);
+        expect(() => new JsonPriceOracle({})).throws();
+    });
+
+    it('pool oracle walks the pools from stable coins', () => {
+        // 1 A = 2 USDC in a deep pool and 1 A = 2.2 USDC in a shallow pool, 1 B = 0.5 A, 1 C = 3 A
+        const pools = [
+            createOraclePool("0x5", A, USDC, BigInt(1000000000), BigInt(2200000)),
+            createOraclePool("0x1", A, USDC, BigInt(1000000000000), BigInt(2000000000)),
+            createOraclePool("0x2", B, A, BigInt(2000000000000), BigInt(1000000000000)),
+            createOraclePool("0x3", C, B, BigInt(1000000000), BigInt(4000000000)),
+            createOraclePool("0x4", C, A, BigInt(1000000000000), BigInt(3000000000000)),
+        ];
+
+        const oracle = new PoolPriceOracle({ pools, getCoinUi });
+        expect(oracle.getPrice(USDC)).equals(1.0);
+        expect(oracle.getPrice(A)).closeTo(2.0, 1e-9);
+        expect(oracle.getPrice(B)).closeTo(1.0, 1e-9);
+        expect(oracle.getPrice(C)).closeTo(6.0, 1e-9);
+        expect(oracle.getPrice(createCoinType("D"))).equals(null);
+    });
+
+    it('prices the tvl with the oracle', () => {
+        const client = createClient({
+            priceOracle: FixedPriceOracle.fromPrices([{ coinType: SuiConstants.SUI_COIN_TYPE, price: 0.5 }])
+        });
+
+        const pool = createOraclePool("0x1", A, B, BigInt(1000000000), BigInt(2000000000));
+        expect(pool.getTvl(client, 0.5, getCoinUi(A), getCoinUi(B))).equals(null);
+
+        const oracle = FixedPriceOracle.fromPrices([{ coinType: B, price: 3.0 }]);
+        expect(pool.getTvl(client, 0.5, getCoinUi(A), getCoinUi(B), oracle)).closeTo(12.0, 1e-9);
+
+        // The oracle of the client is used when the oracle is not provided
+        client.setPriceOracle(oracle);
+        expect(pool.getTvl(client, 0.5, getCoinUi(A), getCoinUi(B))).closeTo(12.0, 1e-9);
+        expect(pool.getTradeVolumne(client, 0.5, getCoinUi(A), getCoinUi(B))).equals(0.0);
+    });
+
+    it('prices the primary coin with the oracle of the client', async () => {
+        const client = createClient();
+        expect(client.getPriceOracle()).equals(null);
+        let error: Error | null = null;
+        await client.getPrimaryCoinPrice().catch(e => { error = e; });
+        expect(error).not.equals(null);
+
+        client.setPriceOracle(FixedPriceOracle.fromPrices([{ coinType: SuiConstants.SUI_COIN_TYPE, price: 0.5 }]));
+        expect(await client.getPrimaryCoinPrice()).equals(0.5);
+    });
+
+    it('only refreshes the oracle of the client without the price', async () => {
+        // The oracle gets the price on the first refresh and fails the later ones
+        let refreshes = 0;
+        const oracle = new FixedPriceOracle({});
+        oracle.refresh = async () => {
+            refreshes += 1;
+            if (refreshes > 1) {
+                throw new Error("refresh error");
+            }
+            oracle.setPrice(SuiConstants.SUI_COIN_TYPE, 0.5);
+        };
+
+        const client = createClient({ priceOracle: oracle });
+        expect(await client.getPrimaryCoinPrice()).equals(0.5);
+        expect(await client.getPrimaryCoinPrice()).equals(0.5);
+        expect(refreshes).equals(1);
+    });
+});
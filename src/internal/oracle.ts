@@ -0,0 +1,186 @@
+import axios from "axios";
+import { PoolInfo, CoinType, GetCoinUiFn } from "./common";
+import { MoveType } from "./move-type";
+import { Client } from "./client";
+
+export interface PriceOracle {
+    /// Get the price of one coin (in the visual space, i.e. divided by 10 ** demical) in USD, null when unknown
+    getPrice: (coinType: CoinType) => number | null;
+    /// Refresh the prices from the source
+    refresh: () => Promise<void>;
+}
+
+/// The price feed in JSON, which maps the coin type string (e.g. "0x2::sui::SUI") to the price
+export type PriceFeedData = Record<string, number>;
+
+const normalizePriceFeed = (data: PriceFeedData) => {
+    const prices = new Map<string, number>();
+    for (const [key, price] of Object.entries(data)) {
+        if (typeof price !== "number" || !Number.isFinite(price) || price < 0.0) {
+            continue;
+        }
+        const coinType = MoveType.fromString(key);
+        prices.set(coinType !== null ? coinType.uuid() : key, price);
+    }
+    return prices;
+}
+
+export class FixedPriceOracle implements PriceOracle {
+    prices: Map<string, number>;
+
+    constructor(prices: PriceFeedData) {
+        this.prices = normalizePriceFeed(prices);
+    }
+
+    static fromPrices = (prices: Array<{ coinType: CoinType, price: number }>) => {
+        const oracle = new FixedPriceOracle({});
+        prices.forEach(p => oracle.setPrice(p.coinType, p.price));
+        return oracle;
+    }
+
+    setPrice = (coinType: CoinType, price: number) => {
+        this.prices.set(coinType.uuid(), price);
+    }
+
+    getPrice = (coinType: CoinType) => {
+        return this.prices.get(coinType.uuid()) ?? null;
+    }
+
+    refresh = async () => {}
+}
+
+export interface JsonPriceOracleProps {
+    /// The url of the feed, fetched when refreshing
+    url?: string;
+    /// The local feed, used before the first refresh or when there's no url
+    data?: PriceFeedData;
+    /// Convert the response of the url into the feed, default to use the response as it is
+    parse?: (response: any) => PriceFeedData;
+}
+
+export class JsonPriceOracle implements PriceOracle {
+    url: string | null;
+    parse: (response: any) => PriceFeedData;
+    prices: Map<string, number>;
+
+    constructor(props: JsonPriceOracleProps) {
+        if (props.url === undefined && props.data === undefined) {
+            throw new Error("Either the url or the data should be provided for the json price oracle");
+        }
+
+        this.url = props.url ?? null;
+        this.parse = props.parse ?? ((response: any) => response as PriceFeedData);
+        this.prices = normalizePriceFeed(props.data ?? {});
+    }
+
+    getPrice = (coinType: CoinType) => {
+        return this.prices.get(coinType.uuid()) ?? null;
+    }
+
+    refresh = async () => {
+        if (this.url === null) {
+            return;
+        }
+
+        const response = await axios.get(this.url);
+        this.prices = normalizePriceFeed(this.parse(response.data));
+    }
+}
+
+export interface PoolPriceOracleProps {
+    getCoinUi: GetCoinUiFn;
+    /// The pools used for pricing, fetched from the client when refreshing if the client is provided
+    pools?: PoolInfo[];
+    client?: Client;
+    /// The coins with known prices in addition to the stable coins
+    basePrices?: Array<{ coinType: CoinType, price: number }>;
+}
+
+/// Price the coins by walking the pools from the stable coins (CoinUiInfoExtension.stableCoin, priced as 1.0) and the base prices.
+/// When a coin could be priced from multiple pools, the pool with the highest liquidity on the priced side is used.
+export class PoolPriceOracle implements PriceOracle {
+    getCoinUi: GetCoinUiFn;
+    pools: PoolInfo[];
+    client: Client | null;
+    basePrices: Array<{ coinType: CoinType, price: number }>;
+    prices: Map<string, number> = new Map();
+
+    constructor(props: PoolPriceOracleProps) {
+        this.getCoinUi = props.getCoinUi;
+        this.pools = props.pools ?? [];
+        this.client = props.client ?? null;
+        this.basePrices = props.basePrices ?? [];
+        this.prices = this.computePrices();
+    }
+
+    setPools = (pools: PoolInfo[]) => {
+        this.pools = pools;
+        this.prices = this.computePrices();
+    }
+
+    getPrice = (coinType: CoinType) => {
+        return this.prices.get(coinType.uuid()) ?? null;
+    }
+
+    refresh = async () => {
+        if (this.client !== null) {
+            this.pools = await this.client.getPools();
+        }
+        this.prices = this.computePrices();
+    }
+
+    computePrices = () => {
+        const prices = new Map<string, number>();
+        const pools = this.pools.filter(pool => pool.isAvaliableForSwap());
+
+        pools.forEach(pool => {
+            [pool.type.xTokenType, pool.type.yTokenType].forEach(coinType => {
+                if (this.getCoinUi(coinType).extensions?.stableCoin !== undefined) {
+                    prices.set(coinType.uuid(), 1.0);
+                }
+            });
+        });
+        this.basePrices.forEach(p => prices.set(p.coinType.uuid(), p.price));
+
+        while (true) {
+            // The candidate price and the liquidity (in USD) of the priced side for each unpriced coin
+            const candidates = new Map<string, { price: number, liquidity: number }>();
+
+            for (const pool of pools) {
+                const xType = pool.type.xTokenType;
+                const yType = pool.type.yTokenType;
+                const xDecimal = this.getCoinUi(xType).demical ?? 0;
+                const yDecimal = this.getCoinUi(yType).demical ?? 0;
+                const price = pool.getPrice(xDecimal, yDecimal);
+                if (price <= 0.0) {
+                    continue;
+                }
+
+                const px = prices.get(xType.uuid());
+                const py = prices.get(yType.uuid());
+
+                let candidate: { key: string, price: number, liquidity: number } | null = null;
+                if (px !== undefined && py === undefined) {
+                    candidate = { key: yType.uuid(), price: px / price, liquidity: px * Number(pool.x) / (10 ** xDecimal) };
+                }
+                else if (px === undefined && py !== undefined) {
+                    candidate = { key: xType.uuid(), price: py * price, liquidity: py * Number(pool.y) / (10 ** yDecimal) };
+                }
+
+                if (candidate !== null) {
+                    const current = candidates.get(candidate.key);
+                    if (current === undefined || current.liquidity < candidate.liquidity) {
+                        candidates.set(candidate.key, { price: candidate.price, liquidity: candidate.liquidity });
+                    }
+                }
+            }
+
+            if (candidates.size === 0) {
+                break;
+            }
+            candidates.forEach((c, key) => prices.set(key, c.price));
+        }
+
+        return prices;
+    }
+}
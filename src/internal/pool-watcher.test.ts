@@ -0,0 +1,109 @@
+import { expect } from "chai";
+import { normalizeSuiObjectId as nid, SuiObjectResponse } from "@mysten/sui.js";
+import { PoolInfo, PoolInfoInitializeInfo } from "./common";
+import { MoveType } from "./move-type";
+import { PoolDiff } from "./pool-watcher";
+import { createClient, createCoinType, createPool, createPoolType } from "./test-utils";
+
+const createWatchedPool = (addr: string, x: MoveType, y: MoveType, props?: Partial<PoolInfoInitializeInfo>) => {
+    return createPool({
+        addr,
+        type: createPoolType(x, y),
+        lspSupply: BigInt(1000),
+        lpFee: BigInt(25),
+        x: BigInt(1000),
+        y: BigInt(1000),
+        ...(props ?? {})
+    });
+}
+
+/// The client with the on-chain pools faked, the responses only carry the id and the version
+const createChainClient = (chain: Map<string, { version: number, pool: PoolInfo }>) => {
+    const client = createClient();
+
+    const fetched: string[][] = [];
+    client.getObjects = async (ids: string[]) => {
+        fetched.push(ids);
+        return ids.map(id => ({ data: { objectId: id, version: chain.get(id)!.version, digest: "" } } as SuiObjectResponse));
+    };
+    client.mapResponseToPoolInfo = (response: SuiObjectResponse) => {
+        return chain.get(response.data!.objectId)!.pool.clone();
+    };
+    return { client, fetched };
+}
+
+describe('PoolWatcher', () => {
+    const A = createCoinType("A");
+    const B = createCoinType("B");
+    const C = createCoinType("C");
+    const ID_1 = nid("0x51");
+    const ID_2 = nid("0x52");
+
+    it('updates the pools in place and emits the diffs', async () => {
+        const chain = new Map([
+            [ID_1, { version: 1, pool: createWatchedPool(ID_1, A, B) }],
+            [ID_2, { version: 1, pool: createWatchedPool(ID_2, C, A) }],
+        ]);
+        const { client, fetched } = createChainClient(chain);
+
+        const p1 = createWatchedPool(ID_1, A, B);
+        const p2 = createWatchedPool(ID_2, C, A);
+        const watcher = client.watchPools({ pools: [p1, p2], pollInterval: null });
+
+        const all: PoolDiff[] = [];
+        const single: PoolDiff[] = [];
+        const pair: PoolDiff[] = [];
+        watcher.subscribe(diff => all.push(diff));
+        watcher.subscribePool(ID_2, diff => single.push(diff));
+        watcher.subscribePair(B, A, diff => pair.push(diff));
+
+        expect((await watcher.refresh()).length).equals(0);
+
+        chain.set(ID_1, { version: 2, pool: createWatchedPool(ID_1, A, B, { x: BigInt(1100), y: BigInt(910), freeze: true }) });
+        const diffs = await watcher.refresh();
+        expect(diffs.length).equals(1);
+        expect(diffs[0].pool).equals(p1);
+        expect(p1.x).equals(BigInt(1100));
+        expect(p1.isAvaliableForSwap()).equals(false);
+        expect(diffs[0].previous.x).equals(BigInt(1000));
+        expect(diffs[0].changes.map(c => c.field)).deep.equals(["x", "y", "freeze"]);
+        expect(all.length).equals(1);
+        expect(pair.length).equals(1);
+        expect(single.length).equals(0);
+
+        // The pool with the same version is not diffed again
+        chain.get(ID_1)!.pool.x = BigInt(1);
+        expect((await watcher.refresh([ID_1])).length).equals(0);
+        expect(fetched[fetched.length - 1]).deep.equals([ID_1]);
+
+        chain.set(ID_2, { version: 2, pool: createWatchedPool(ID_2, C, A, { lpFee: BigInt(30) }) });
+        await watcher.refresh();
+        expect(single.map(d => d.changes[0].field)).deep.equals(["lpFee"]);
+        expect(p2._fLp).equals(0.003);
+        expect(p2.getXToYAmount(BigInt(100))).equals(chain.get(ID_2)!.pool.getXToYAmount(BigInt(100)));
+        expect(pair.length).equals(1);
+    });
+
+    it('keeps emitting when a listener throws', async () => {
+        const chain = new Map([
+            [ID_1, { version: 1, pool: createWatchedPool(ID_1, A, B) }],
+            [ID_2, { version: 1, pool: createWatchedPool(ID_2, C, A) }],
+        ]);
+        const { client } = createChainClient(chain);
+        const p1 = createWatchedPool(ID_1, A, B);
+        const watcher = client.watchPools({ pools: [p1, createWatchedPool(ID_2, C, A)], pollInterval: null });
+
+        const received: string[] = [];
+        const errors: unknown[] = [];
+        watcher.subscribe(() => { throw new Error("listener error"); });
+        watcher.subscribe(diff => received.push(diff.pool.addr));
+        watcher.onError(e => errors.push(e));
+
+        chain.set(ID_1, { version: 2, pool: createWatchedPool(ID_1, A, B, { x: BigInt(1100), totalTradeX: BigInt(100) }) });
+        chain.set(ID_2, { version: 2, pool: createWatchedPool(ID_2, C, A, { y: BigInt(900) }) });
+        expect((await watcher.refresh()).length).equals(2);
+        expect(received).deep.equals([ID_1, ID_2]);
+        expect(errors.length).equals(2);
+        expect(p1.totalTradeX).equals(BigInt(100));
+    });
+});
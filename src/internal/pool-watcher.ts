@@ -0,0 +1,232 @@
+import { getObjectId, getObjectVersion, normalizeSuiObjectId as nid } from "@mysten/sui.js";
+import { AddressType, CoinType, PoolInfo, PoolInfoInitializeInfo } from "./common";
+import { MoveType } from "./move-type";
+import { SuiswapClient } from "./suiswap-client";
+import { SuiswapEventStream } from "./event-stream";
+
+export type PoolWatchedField = "x" | "y" | "lspSupply" | "freeze" | "adminFee" | "lpFee" | "thFee" | "withdrawFee";
+
+export interface PoolFieldChange {
+    field: PoolWatchedField;
+    before: bigint | boolean;
+    after: bigint | boolean;
+}
+
+export interface PoolDiff {
+    /// The updated pool, which is the same instance as the watched one
+    pool: PoolInfo;
+    /// The snapshot of the pool before the update
+    previous: PoolInfo;
+    changes: PoolFieldChange[];
+}
+
+export type PoolDiffListener = (diff: PoolDiff) => void;
+
+export interface PoolWatcherProps {
+    client: SuiswapClient;
+    /// The pools to watch, all the pools from the client are watched when not provided
+    pools?: PoolInfo[];
+    /// The polling interval in milliseconds, set to null to disable polling (e.g. when only the event stream is used)
+    pollInterval?: number | null;
+    /// When provided, the pools are refreshed as soon as there're events of them
+    eventStream?: SuiswapEventStream;
+}
+
+/// Keep the watched PoolInfo instances up to date and emit the diffs of the changed pools. The pools are updated in place,
+/// so the references held by the callers always have the latest state.
+export class PoolWatcher {
+    static DEFAULT_POLL_INTERVAL = 5000;
+    static WATCHED_FIELDS: PoolWatchedField[] = ["x", "y", "lspSupply", "freeze", "adminFee", "lpFee", "thFee", "withdrawFee"];
+    /// The fields copied when updating the pool in place, the identity fields (addr, type, ...) never change
+    static STATE_FIELDS: Array<keyof PoolInfoInitializeInfo> = [
+        "lspSupply", "freeze", "boostMultiplierData",
+        "feeDirection", "adminFee", "lpFee", "thFee", "withdrawFee",
+        "x", "y", "xAdmin", "yAdmin", "xTh", "yTh",
+        "stableAmp", "stableXScale", "stableYScale",
+        "totalTradeX", "totalTradeY", "totalTradeXLastEpoch", "totalTradeYLastEpoch", "totalTradeXCurrentEpoch", "totalTradeYCurrentEpoch",
+        "thRewardType", "thRewardX", "thRewardY", "thRewardXSupply", "thRewardYSupply", "thRewardNepoch", "thRewardStartEpcoh",
+        "thRewardEndEpoch", "thRewardTotalStakeAmount", "thRewardTotalStakeBoost",
+        "miningSpeed", "miningAmpt", "miningLastEpoch"
+    ];
+
+    client: SuiswapClient;
+    pools: Map<AddressType, PoolInfo> = new Map();
+    versions: Map<AddressType, string> = new Map();
+    pollInterval: number | null;
+    eventStream: SuiswapEventStream | null;
+
+    listeners: Set<PoolDiffListener> = new Set();
+    errorListeners: Set<(error: unknown) => void> = new Set();
+    running: boolean = false;
+    timer: ReturnType<typeof setTimeout> | null = null;
+    unsubscribeEventStream: (() => void) | null = null;
+
+    constructor(props: PoolWatcherProps) {
+        this.client = props.client;
+        (props.pools ?? []).forEach(pool => this.pools.set(nid(pool.addr), pool));
+        this.pollInterval = (props.pollInterval === undefined) ? PoolWatcher.DEFAULT_POLL_INTERVAL : props.pollInterval;
+        this.eventStream = props.eventStream ?? null;
+    }
+
+    static diffPools = (before: PoolInfo, after: PoolInfo) => {
+        const changes: PoolFieldChange[] = [];
+        for (const field of PoolWatcher.WATCHED_FIELDS) {
+            if (before[field] !== after[field]) {
+                changes.push({ field, before: before[field], after: after[field] });
+            }
+        }
+        return changes;
+    }
+
+    getPools = () => {
+        return Array.from(this.pools.values());
+    }
+
+    getPool = (poolId: AddressType) => {
+        return this.pools.get(nid(poolId)) ?? null;
+    }
+
+    /// Subscribe to the diffs of all the pools, returns the function for unsubscribing
+    subscribe = (listener: PoolDiffListener) => {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    subscribePool = (poolId: AddressType, listener: PoolDiffListener) => {
+        const id = nid(poolId);
+        return this.subscribe((diff) => {
+            if (nid(diff.pool.addr) === id) {
+                listener(diff);
+            }
+        });
+    }
+
+    /// Subscribe to the diffs of the pools with the coin pair in either order
+    subscribePair = (a: CoinType, b: CoinType, listener: PoolDiffListener) => {
+        return this.subscribe((diff) => {
+            const x = diff.pool.type.xTokenType;
+            const y = diff.pool.type.yTokenType;
+            if ((MoveType.equals(x, a) && MoveType.equals(y, b)) || (MoveType.equals(x, b) && MoveType.equals(y, a))) {
+                listener(diff);
+            }
+        });
+    }
+
+    onError = (listener: (error: unknown) => void) => {
+        this.errorListeners.add(listener);
+        return () => { this.errorListeners.delete(listener); };
+    }
+
+    _updateInPlace = (pool: PoolInfo, latest: PoolInfo) => {
+        const assign = <K extends keyof PoolInfoInitializeInfo>(key: K) => { pool[key] = latest[key]; };
+        PoolWatcher.STATE_FIELDS.forEach(assign);
+        pool.updateFeeFactors();
+    }
+
+    /// Send the diff to each listener, a listener throwing does not stop the others
+    _emit = (diff: PoolDiff) => {
+        this.listeners.forEach(listener => {
+            try {
+                listener(diff);
+            } catch (e) {
+                this.errorListeners.forEach(errorListener => errorListener(e));
+            }
+        });
+    }
+
+    /// Fetch the pools (default to all the watched pools) and emit the diffs, the pools with unchanged object versions are skipped.
+    /// Returns the diffs.
+    refresh = async (poolIds?: AddressType[]) => {
+        if (this.pools.size === 0 && poolIds === undefined) {
+            (await this.client.getPools()).forEach(pool => this.pools.set(nid(pool.addr), pool));
+        }
+
+        const ids = (poolIds ?? Array.from(this.pools.keys())).map(id => nid(id)).filter(id => this.pools.has(id));
+        if (ids.length === 0) {
+            return [];
+        }
+
+        const responses = await this.client.getObjects(ids);
+        const diffs: PoolDiff[] = [];
+
+        for (const response of responses) {
+            const latest = this.client.mapResponseToPoolInfo(response);
+            if (latest === null) {
+                continue;
+            }
+
+            const id = nid(getObjectId(response));
+            const pool = this.pools.get(id);
+            if (pool === undefined) {
+                continue;
+            }
+
+            const version = getObjectVersion(response);
+            if (version !== undefined && this.versions.get(id) === String(version)) {
+                continue;
+            }
+            if (version !== undefined) {
+                this.versions.set(id, String(version));
+            }
+
+            const changes = PoolWatcher.diffPools(pool, latest);
+            const previous = pool.clone();
+            this._updateInPlace(pool, latest);
+
+            if (changes.length > 0) {
+                const diff: PoolDiff = { pool, previous, changes };
+                diffs.push(diff);
+                this._emit(diff);
+            }
+        }
+
+        return diffs;
+    }
+
+    _refreshSafe = async (poolIds?: AddressType[]) => {
+        try {
+            await this.refresh(poolIds);
+        } catch (e) {
+            this.errorListeners.forEach(listener => listener(e));
+        }
+    }
+
+    start = () => {
+        if (this.running) {
+            return;
+        }
+        this.running = true;
+
+        if (this.eventStream !== null) {
+            this.unsubscribeEventStream = this.eventStream.on((event) => {
+                if (event.transaction.poolId !== undefined) {
+                    this._refreshSafe([event.transaction.poolId]);
+                }
+            });
+        }
+
+        const loop = async () => {
+            await this._refreshSafe();
+            if (this.running && this.pollInterval !== null) {
+                this.timer = setTimeout(loop, this.pollInterval);
+            }
+        }
+        loop();
+    }
+
+    stop = () => {
+        this.running = false;
+        if (this.timer !== null) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        if (this.unsubscribeEventStream !== null) {
+            this.unsubscribeEventStream();
+            this.unsubscribeEventStream = null;
+        }
+    }
+
+    isRunning = () => {
+        return this.running;
+    }
+}
@@ -0,0 +1,142 @@
+import { expect } from "chai";
+import { SwapType } from "./common";
+import { MoveType } from "./move-type";
+import { SwapRouter } from "./router";
+import { ArbitrageDetector } from "./arbitrage";
+import { createCoinType, createPool, createPoolType } from "./test-utils";
+
+const createRouterPool = (addr: string, x: MoveType, y: MoveType, X: bigint, Y: bigint, swapType?: SwapType) => {
+    const isStable = (swapType === "stable");
+    return createPool({
+        addr,
+        type: createPoolType(x, y),
+        swapType: swapType ?? "v2",
+        adminFee: BigInt(2),
+        lpFee: BigInt(25),
+        thFee: BigInt(3),
+        x: X,
+        y: Y,
+        stableAmp: isStable ? BigInt(100) : BigInt(0),
+        stableXScale: isStable ? BigInt(1) : BigInt(0),
+        stableYScale: isStable ? BigInt(1) : BigInt(0),
+    });
+}
+
+describe('SwapRouter', () => {
+    const A = createCoinType("A");
+    const B = createCoinType("B");
+    const C = createCoinType("C");
+    const D = createCoinType("D");
+
+    it('finds the best multi-hop route', () => {
+        const pAB = createRouterPool("0x1", A, B, BigInt(1000000000), BigInt(1000000000));
+        const pCB = createRouterPool("0x2", C, B, BigInt(1000000000), BigInt(1000000000));
+        const pAD = createRouterPool("0x3", A, D, BigInt(1000000000), BigInt(2000000000));
+        const pDC = createRouterPool("0x4", D, C, BigInt(2000000000), BigInt(2000000000));
+        const router = new SwapRouter({ pools: [pAB, pCB, pAD, pDC] });
+
+        const amount = BigInt(1000000);
+        const routes = router.getRoutes(A, C, amount);
+        expect(routes.length).equals(2);
+
+        const best = router.getBestRoute(A, C, amount)!;
+        expect(best.legs.map(leg => leg.pool.addr)).deep.equals([pAD.addr, pDC.addr]);
+        expect(best.legs[0].direction).equals("forward");
+        expect(best.legs[1].direction).equals("forward");
+        expect(best.legs[1].inAmount).equals(best.legs[0].outAmount);
+        expect(best.outAmount).equals(pDC.getXToYAmount(pAD.getXToYAmount(amount)));
+
+        const reverse = router.getBestRoute(C, A, amount)!;
+        expect(reverse.legs.map(leg => leg.pool.addr)).deep.equals([pCB.addr, pAB.addr]);
+        expect(reverse.legs.map(leg => leg.direction)).deep.equals(["forward", "reverse"]);
+    });
+
+    it('creates the swap operation only for the single hop route', () => {
+        const pAB = createRouterPool("0x1", A, B, BigInt(1000000000), BigInt(1000000000));
+        const pBC = createRouterPool("0x2", B, C, BigInt(1000000000), BigInt(1000000000));
+        const pCD = createRouterPool("0x3", C, D, BigInt(1000000000), BigInt(1000000000));
+        const router = new SwapRouter({ pools: [pAB, pBC, pCD] });
+
+        const route = router.getBestRoute(B, A, BigInt(1000000))!;
+        const operation = SwapRouter.getSwapRouteOperation(route, 0.01)!;
+        expect(operation).deep.include({ operation: "swap", pool: pAB, direction: "reverse", amount: BigInt(1000000) });
+        expect(operation.minOutputAmount).equals(route.outAmount * BigInt(9900) / BigInt(10000));
+        expect(SwapRouter.getSwapRouteOperation(route)!.minOutputAmount).equals(undefined);
+
+        // The legs cannot be chained in one transaction
+        const multiHop = router.getBestRoute(A, D, BigInt(1000000))!;
+        expect(multiHop.legs.length).equals(3);
+        expect(SwapRouter.getSwapRouteOperation(multiHop, 0.01)).equals(null);
+    });
+
+    it('skips frozen and empty pools', () => {
+        const pAB = createRouterPool("0x1", A, B, BigInt(1000000000), BigInt(1000000000));
+        const pBC = createRouterPool("0x2", B, C, BigInt(1000000000), BigInt(1000000000));
+        const pAC = createRouterPool("0x3", A, C, BigInt(1000000000), BigInt(1000000000));
+        const pAD = createRouterPool("0x4", A, D, BigInt(0), BigInt(0));
+        pAC.freeze = true;
+
+        const router = new SwapRouter({ pools: [pAB, pBC, pAC, pAD] });
+        const best = router.getBestRoute(A, C, BigInt(1000))!;
+        expect(best.legs.length).equals(2);
+        expect(router.getBestRoute(A, D, BigInt(1000))).equals(null);
+        expect(router.getBestRoute(A, C, BigInt(1000), 1)).equals(null);
+    });
+
+    it('splits large trades across parallel pools', () => {
+        const pV2 = createRouterPool("0x1", A, B, BigInt(1000000000), BigInt(1000000000));
+        const pStable = createRouterPool("0x2", A, B, BigInt(300000000), BigInt(300000000), "stable");
+        const pAC = createRouterPool("0x3", A, C, BigInt(1000000000), BigInt(1000000000));
+        const pCB = createRouterPool("0x4", C, B, BigInt(1000000000), BigInt(1000000000));
+        const router = new SwapRouter({ pools: [pV2, pStable, pAC, pCB] });
+
+        const amount = BigInt(500000000);
+        const split = router.getBestSplitRoute(A, B, amount)!;
+        expect(split.routes.length).greaterThan(1);
+        expect(split.outAmount).equals(split.routes.reduce((sum, route) => sum + route.outAmount, BigInt(0)));
+        expect(split.routes.reduce((sum, route) => sum + route.inAmount, BigInt(0))).equals(amount);
+        expect(split.outAmount > split.bestSingleRoute.outAmount).equals(true);
+        expect(split.improvement).equals(split.outAmount - split.bestSingleRoute.outAmount);
+        expect(split.fractions.reduce((sum, f) => sum + f, 0.0)).closeTo(1.0, 1e-9);
+
+        // Small trades are not worth splitting
+        const small = router.getBestSplitRoute(A, B, BigInt(1000))!;
+        expect(small.routes.length).equals(1);
+        expect(small.improvement).equals(BigInt(0));
+    });
+});
+
+describe('ArbitrageDetector', () => {
+    const A = createCoinType("A");
+    const B = createCoinType("B");
+    const C = createCoinType("C");
+
+    it('detects the profitable cycles', () => {
+        const pV2 = createRouterPool("0x1", A, B, BigInt(1000000000), BigInt(1200000000));
+        const pStable = createRouterPool("0x2", A, B, BigInt(1000000000), BigInt(1000000000), "stable");
+        const pBC = createRouterPool("0x3", B, C, BigInt(1000000000), BigInt(1000000000));
+        const pCA = createRouterPool("0x4", C, A, BigInt(1000000000), BigInt(1000000000));
+        const detector = new ArbitrageDetector({ pools: [pV2, pStable, pBC, pCA] });
+
+        const cycles = detector.getCycles();
+        // A -> B -> A in both directions, and A -> B -> C -> A with either of the A/B pools in both directions
+        expect(cycles.length).equals(6);
+
+        const opportunities = detector.getOpportunities();
+        expect(opportunities.length).greaterThan(0);
+
+        const best = opportunities[0];
+        expect(best.profit).equals(best.outAmount - best.inAmount);
+        expect(best.profit > BigInt(0)).equals(true);
+        expect(ArbitrageDetector.getProfit(best.path, best.inAmount + BigInt(1000)) <= best.profit).equals(true);
+        expect(ArbitrageDetector.getProfit(best.path, best.inAmount - BigInt(1000)) <= best.profit).equals(true);
+    });
+
+    it('reports nothing for balanced pools', () => {
+        const pV2 = createRouterPool("0x1", A, B, BigInt(1000000000), BigInt(1000000000));
+        const pStable = createRouterPool("0x2", A, B, BigInt(1000000000), BigInt(1000000000), "stable");
+        const detector = new ArbitrageDetector({ pools: [pV2, pStable] });
+        expect(detector.getOpportunities().length).equals(0);
+    });
+});
+
@@ -0,0 +1,278 @@
+import { BigIntConstants } from "./constants";
+import { MoveType } from "./move-type";
+import { PoolInfo, CoinType, PoolDirectionType } from "./common";
+import { TransactionOperation } from "./transaction";
+import { Slippage } from "./slippage";
+
+export interface SwapRouteHop {
+    pool: PoolInfo;
+    direction: PoolDirectionType;
+}
+
+export type SwapRoutePath = SwapRouteHop[];
+
+export interface SwapRouteLeg extends SwapRouteHop {
+    inputType: CoinType;
+    outputType: CoinType;
+    inAmount: bigint;
+    outAmount: bigint;
+}
+
+export interface SwapRoute {
+    inputType: CoinType;
+    outputType: CoinType;
+    inAmount: bigint;
+    outAmount: bigint;
+    legs: SwapRouteLeg[];
+}
+
+export interface SwapSplitRoute {
+    inputType: CoinType;
+    outputType: CoinType;
+    inAmount: bigint;
+    outAmount: bigint;
+    routes: SwapRoute[];
+    /// The fraction of the input amount for each of the routes, in the same order of routes
+    fractions: number[];
+    bestSingleRoute: SwapRoute;
+    /// The extra output amount compared with the best single route
+    improvement: bigint;
+    improvementRatio: number;
+}
+
+export interface SwapSplitOptions {
+    maxHops?: number;
+    maxRoutes?: number;
+    steps?: number;
+}
+
+export interface SwapRouterProps {
+    pools: PoolInfo[];
+    maxHops?: number;
+}
+
+export class SwapRouter {
+    static DEFAULT_MAX_HOPS = 3;
+    static DEFAULT_SPLIT_MAX_ROUTES = 3;
+    static DEFAULT_SPLIT_STEPS = 20;
+
+    pools: PoolInfo[];
+    maxHops: number;
+
+    constructor(props: SwapRouterProps) {
+        // Frozen and empty pools could never be part of a valid route
+        this.pools = props.pools.filter(pool => pool.getNotAvaliableForSwapReason() === null);
+        this.maxHops = props.maxHops ?? SwapRouter.DEFAULT_MAX_HOPS;
+    }
+
+    static getHopInputType = (hop: SwapRouteHop) => {
+        return (hop.direction === "forward") ? hop.pool.type.xTokenType : hop.pool.type.yTokenType;
+    }
+
+    static getHopOutputType = (hop: SwapRouteHop) => {
+        return (hop.direction === "forward") ? hop.pool.type.yTokenType : hop.pool.type.xTokenType;
+    }
+
+    /// Get all the hops that could swap the given coin into another coin
+    getHopsFrom = (coinType: CoinType) => {
+        const hops: SwapRouteHop[] = [];
+        for (const pool of this.pools) {
+            if (MoveType.equals(pool.type.xTokenType, coinType)) {
+                hops.push({ pool, direction: "forward" });
+            }
+            else if (MoveType.equals(pool.type.yTokenType, coinType)) {
+                hops.push({ pool, direction: "reverse" });
+            }
+        }
+        return hops;
+    }
+
+    /// Enumerate all the paths from inputType to outputType with at most maxHops hops, a coin is never visited twice in a path
+    getPaths = (inputType: CoinType, outputType: CoinType, maxHops?: number) => {
+        const maxHops_ = maxHops ?? this.maxHops;
+        const paths: SwapRoutePath[] = [];
+        const visited = new Set<string>([inputType.str()]);
+
+        const search = (coinType: CoinType, path: SwapRoutePath) => {
+            if (path.length >= maxHops_) {
+                return;
+            }
+
+            for (const hop of this.getHopsFrom(coinType)) {
+                const nextType = SwapRouter.getHopOutputType(hop);
+                if (nextType.str() === outputType.str()) {
+                    paths.push([...path, hop]);
+                    continue;
+                }
+                if (visited.has(nextType.str())) {
+                    continue;
+                }
+
+                visited.add(nextType.str());
+                search(nextType, [...path, hop]);
+                visited.delete(nextType.str());
+            }
+        }
+
+        if (inputType.str() !== outputType.str()) {
+            search(inputType, []);
+        }
+
+        return paths;
+    }
+
+    /// Chain the swap amount through each hop of the path, return null when any of the leg yields nothing
+    static getRouteForPath = (path: SwapRoutePath, amount: bigint) => {
+        if (path.length === 0 || amount <= BigIntConstants.ZERO) {
+            return null;
+        }
+
+        const legs: SwapRouteLeg[] = [];
+        let inAmount = amount;
+        for (const hop of path) {
+            const outAmount = hop.pool.getOutputAmount(hop.direction, inAmount);
+            if (outAmount <= BigIntConstants.ZERO) {
+                return null;
+            }
+            legs.push({
+                pool: hop.pool,
+                direction: hop.direction,
+                inputType: SwapRouter.getHopInputType(hop),
+                outputType: SwapRouter.getHopOutputType(hop),
+                inAmount,
+                outAmount
+            });
+            inAmount = outAmount;
+        }
+
+        const route: SwapRoute = {
+            inputType: legs[0].inputType,
+            outputType: legs[legs.length - 1].outputType,
+            inAmount: amount,
+            outAmount: legs[legs.length - 1].outAmount,
+            legs
+        };
+        return route;
+    }
+
+    /// Create the swap operation for the route, with the slippage applied to the min output amount of the route.
+    /// Returns null for the multi-hop routes, the pool swap functions are entry functions which transfer the output coin to
+    /// the sender, so the legs cannot be chained in one transaction. Submit the swap of each leg separately instead.
+    static getSwapRouteOperation = (route: SwapRoute, slippage?: Slippage | number) => {
+        if (route.legs.length !== 1) {
+            return null;
+        }
+
+        const leg = route.legs[0];
+        const operation: TransactionOperation.Swap = {
+            operation: "swap",
+            pool: leg.pool,
+            direction: leg.direction,
+            amount: leg.inAmount,
+            minOutputAmount: (slippage !== undefined) ? Slippage.from(slippage).getMinOutputAmount(route.outAmount) : undefined
+        };
+        return operation;
+    }
+
+    /// Get all the valid routes, sorted by the output amount from the best to the worst
+    getRoutes = (inputType: CoinType, outputType: CoinType, amount: bigint, maxHops?: number) => {
+        const routes = this.getPaths(inputType, outputType, maxHops)
+            .map(path => SwapRouter.getRouteForPath(path, amount))
+            .filter(route => route !== null) as SwapRoute[];
+
+        // Prefer less hops when the output amount is the same
+        routes.sort((a, b) => (a.outAmount < b.outAmount) ? 1 : (a.outAmount > b.outAmount ? -1 : (a.legs.length - b.legs.length)));
+        return routes;
+    }
+
+    getBestRoute = (inputType: CoinType, outputType: CoinType, amount: bigint, maxHops?: number) => {
+        const routes = this.getRoutes(inputType, outputType, amount, maxHops);
+        return (routes.length > 0) ? routes[0] : null;
+    }
+
+    /// Split the input amount across several routes to maximize the total output amount.
+    /// Only routes that do not share any pool are combined, so that each route could be simulated independently.
+    /// The amount is divided into steps and each step is greedily assigned to the route with the largest marginal output.
+    getBestSplitRoute = (inputType: CoinType, outputType: CoinType, amount: bigint, options?: SwapSplitOptions) => {
+        const maxRoutes = options?.maxRoutes ?? SwapRouter.DEFAULT_SPLIT_MAX_ROUTES;
+        const steps = BigInt(Math.max(options?.steps ?? SwapRouter.DEFAULT_SPLIT_STEPS, 1));
+
+        const routes = this.getRoutes(inputType, outputType, amount, options?.maxHops);
+        if (routes.length === 0) {
+            return null;
+        }
+        const bestSingleRoute = routes[0];
+
+        const candidates: SwapRoutePath[] = [];
+        const usedPools = new Set<string>();
+        for (const route of routes) {
+            if (candidates.length >= maxRoutes) {
+                break;
+            }
+            if (route.legs.some(leg => usedPools.has(leg.pool.addr))) {
+                continue;
+            }
+            route.legs.forEach(leg => usedPools.add(leg.pool.addr));
+            candidates.push(route.legs.map(leg => ({ pool: leg.pool, direction: leg.direction })));
+        }
+
+        const getOutAmount = (path: SwapRoutePath, a: bigint) => {
+            return SwapRouter.getRouteForPath(path, a)?.outAmount ?? BigIntConstants.ZERO;
+        }
+
+        const allocations = candidates.map(_ => BigIntConstants.ZERO);
+        const outAmounts = candidates.map(_ => BigIntConstants.ZERO);
+        const chunk = amount / steps;
+
+        let remaining = amount;
+        while (remaining > BigIntConstants.ZERO) {
+            // The last step takes all the remaining amount
+            const stepAmount = (chunk > BigIntConstants.ZERO && remaining >= chunk * BigIntConstants.TWO) ? chunk : remaining;
+
+            let bestIndex = 0;
+            let bestGain = BigIntConstants.MINUS_ONE;
+            let bestOutAmount = BigIntConstants.ZERO;
+            candidates.forEach((path, index) => {
+                const outAmount = getOutAmount(path, allocations[index] + stepAmount);
+                const gain = outAmount - outAmounts[index];
+                if (gain > bestGain) {
+                    bestIndex = index;
+                    bestGain = gain;
+                    bestOutAmount = outAmount;
+                }
+            });
+
+            allocations[bestIndex] += stepAmount;
+            outAmounts[bestIndex] = bestOutAmount;
+            remaining -= stepAmount;
+        }
+
+        const splitRoutes: SwapRoute[] = [];
+        const fractions: number[] = [];
+        candidates.forEach((path, index) => {
+            const route = SwapRouter.getRouteForPath(path, allocations[index]);
+            if (route !== null) {
+                splitRoutes.push(route);
+                fractions.push(Number(allocations[index]) / Number(amount));
+            }
+        });
+
+        const splitOutAmount = splitRoutes.reduce((sum, route) => sum + route.outAmount, BigIntConstants.ZERO);
+        const useSplit = splitRoutes.length > 1 && splitOutAmount > bestSingleRoute.outAmount;
+        const outAmount = useSplit ? splitOutAmount : bestSingleRoute.outAmount;
+        const improvement = outAmount - bestSingleRoute.outAmount;
+
+        const splitRoute: SwapSplitRoute = {
+            inputType,
+            outputType,
+            inAmount: amount,
+            outAmount,
+            routes: useSplit ? splitRoutes : [bestSingleRoute],
+            fractions: useSplit ? fractions : [1.0],
+            bestSingleRoute,
+            improvement,
+            improvementRatio: (bestSingleRoute.outAmount > BigIntConstants.ZERO) ? Number(improvement) / Number(bestSingleRoute.outAmount) : 0.0
+        };
+        return splitRoute;
+    }
+}
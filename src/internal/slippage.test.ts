@@ -0,0 +1,25 @@
+import { expect } from "chai";
+import { Slippage } from "./slippage";
+
+describe('Slippage', () => {
+    it('Check validation', () => {
+        expect(() => Slippage.fromBps(-1)).throws();
+        expect(() => Slippage.fromBps(10001)).throws();
+        expect(() => Slippage.fromBps(0.5)).throws();
+        expect(() => Slippage.fromRatio(-0.01)).throws();
+        expect(() => Slippage.fromRatio(1.5)).throws();
+        expect(() => Slippage.fromRatio(NaN)).throws();
+        expect(Slippage.fromRatio(0.005).bps).equals(BigInt(50));
+        expect(Slippage.from(0.01).bps).equals(BigInt(100));
+    });
+
+    it('Check min output and max input amount', () => {
+        const s = Slippage.fromBps(50);
+        expect(s.getMinOutputAmount(BigInt(1000))).equals(BigInt(995));
+        expect(s.getMinOutputAmount(BigInt(1999))).equals(BigInt(1989));
+        expect(s.getMaxInputAmount(BigInt(1000))).equals(BigInt(1005));
+        expect(s.getMaxInputAmount(BigInt(1999))).equals(BigInt(2009));
+        expect(Slippage.ZERO.getMinOutputAmount(BigInt(1999))).equals(BigInt(1999));
+        expect(Slippage.ZERO.getMaxInputAmount(BigInt(1999))).equals(BigInt(1999));
+    });
+});
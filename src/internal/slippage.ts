@@ -0,0 +1,51 @@
+import { BigIntConstants } from "./constants";
+
+export class Slippage {
+    static BPS_SCALING: bigint = BigInt("10000");
+
+    static ZERO = new Slippage(BigIntConstants.ZERO);
+
+    /// The slippage in basis points, 1 bps = 0.01%
+    bps: bigint;
+
+    constructor(bps: bigint) {
+        if (bps < BigIntConstants.ZERO || bps > Slippage.BPS_SCALING) {
+            throw new Error(`Invalid slippage: ${bps} bps, should be between 0 and ${Slippage.BPS_SCALING} bps`);
+        }
+        this.bps = bps;
+    }
+
+    static fromBps = (bps: bigint | number) => {
+        if (typeof bps === "number" && !Number.isInteger(bps)) {
+            throw new Error(`Invalid slippage: ${bps} bps, should be an integer`);
+        }
+        return new Slippage(BigInt(bps));
+    }
+
+    /// Create the slippage from the ratio, e.g. 0.005 for 0.5%, the ratio is rounded to the nearest basis point
+    static fromRatio = (ratio: number) => {
+        if (!Number.isFinite(ratio) || ratio < 0.0 || ratio > 1.0) {
+            throw new Error(`Invalid slippage: ${ratio}, should be between 0 and 1`);
+        }
+        return new Slippage(BigInt(Math.round(ratio * Number(Slippage.BPS_SCALING))));
+    }
+
+    static from = (slippage: Slippage | number) => {
+        return (slippage instanceof Slippage) ? slippage : Slippage.fromRatio(slippage);
+    }
+
+    /// For exact input swapping, the minimum output amount accepted, rounded down
+    getMinOutputAmount = (amount: bigint) => {
+        return amount * (Slippage.BPS_SCALING - this.bps) / Slippage.BPS_SCALING;
+    }
+
+    /// For exact output swapping, the maximum input amount accepted, rounded up
+    getMaxInputAmount = (amount: bigint) => {
+        const n = amount * (Slippage.BPS_SCALING + this.bps);
+        return (n + Slippage.BPS_SCALING - BigIntConstants.ONE) / Slippage.BPS_SCALING;
+    }
+
+    toNumber = () => {
+        return Number(this.bps) / Number(Slippage.BPS_SCALING);
+    }
+}
@@ -0,0 +1,140 @@
+import { expect } from "chai";
+import { normalizeSuiObjectId as nid, SuiEvent } from "@mysten/sui.js";
+import { CommonTransaction, PositionInfo, ValuePerToken } from "./common";
+import { Slippage } from "./slippage";
+import {
+    BlockTransaction, createClient, createCoinStruct, createCoinType, createLiquidityEvent, createPool, createPoolType, createSwapEvent,
+    getTransactionKinds, getU64Argument, setFakeProvider
+} from "./test-utils";
+
+const PACKAGE = nid("0x1234");
+const POOL_1 = nid("0x51");
+const POOL_2 = nid("0x52");
+
+const createHistoryPool = (addr: string) => {
+    return createPool({ addr, type: createPoolType(createCoinType("X"), createCoinType("Y")) });
+}
+
+/// The events from the oldest to the newest, with the timestamp in seconds from 1 to 100
+const createEvents = () => {
+    const events: SuiEvent[] = [];
+    for (let i = 1; i <= 100; ++i) {
+        const props = { packageAddr: PACKAGE, digest: `tx${i}`, timestamp: i };
+        events.push((i % 2 === 0)
+            ? createSwapEvent({ ...props, poolId: (i % 4 === 0) ? POOL_1 : POOL_2 })
+            : createLiquidityEvent({ ...props, poolId: POOL_1, isAdded: (i % 3 === 0) })
+        );
+    }
+    return events;
+}
+
+describe('SuiswapClient transaction history', () => {
+    const pools = [createHistoryPool(POOL_1), createHistoryPool(POOL_2)];
+
+    it('pages through the transactions with the cursor', async () => {
+        const client = createClient({ packageAddr: PACKAGE });
+        const { starts } = setFakeProvider(client, { events: createEvents(), pageSize: 30 });
+
+        const first = await client.getTransactionsPage("0x1", { limit: 40, pools });
+        expect(first.items.length).equals(40);
+        expect(first.items[0].id).equals("tx100");
+        expect(first.items[39].id).equals("tx61");
+        expect(first.nextCursor!.txDigest).equals("tx61");
+        expect(starts).deep.equals([0, 30]);
+
+        const second = await client.getTransactionsPage("0x1", { limit: 40, pools, cursor: first.nextCursor });
+        expect(second.items[0].id).equals("tx60");
+
+        const third = await client.getTransactionsPage("0x1", { limit: 40, pools, cursor: second.nextCursor });
+        expect(third.items.length).equals(20);
+        expect(third.nextCursor).equals(null);
+
+        expect((await client.getTransactions("0x1", 10, pools)).length).equals(10);
+    });
+
+    it('filters by the pool, type and time range', async () => {
+        const client = createClient({ packageAddr: PACKAGE });
+        setFakeProvider(client, { events: createEvents(), pageSize: 30 });
+
+        const swaps = await client.getTransactionsPage("0x1", { limit: 100, pools, filter: { types: ["swap"], poolIds: [POOL_1] } });
+        expect(swaps.items.length).equals(25);
+        expect(swaps.items.every(tx => tx.type === "swap" && tx.poolId === POOL_1)).equals(true);
+        expect(swaps.nextCursor).equals(null);
+
+        const ranged = await client.getTransactionsPage("0x1", { limit: 100, pools, filter: { startTime: 41, endTime: 51 } });
+        expect(ranged.items.map(tx => tx.timestamp)).deep.equals([50, 49, 48, 47, 46, 45, 44, 43, 42, 41]);
+        expect(ranged.nextCursor).equals(null);
+    });
+
+    it('iterates all the transactions', async () => {
+        const client = createClient({ packageAddr: PACKAGE });
+        setFakeProvider(client, { events: createEvents(), pageSize: 30 });
+
+        const items: CommonTransaction[] = [];
+        for await (const tx of client.iterateTransactions("0x1", { limit: 7, pools, filter: { types: ["deposit", "withdraw"] } })) {
+            items.push(tx);
+        }
+        expect(items.length).equals(50);
+        expect(new Set(items.map(tx => tx.id)).size).equals(50);
+    });
+});
+
+describe('SuiswapClient transactions', () => {
+    const X = createCoinType("X");
+    const Y = createCoinType("Y");
+    const ctx = { accountAddr: "0x2" };
+
+    const createTradingClient = () => {
+        const client = createClient({ packageAddr: PACKAGE });
+        setFakeProvider(client, { coins: [createCoinStruct(X, "0xa1", BigInt(5000)), createCoinStruct(X, "0xa2", BigInt(5000)), createCoinStruct(Y, "0xb1", BigInt(5000))] });
+        return client;
+    }
+
+    const pool = createPool({ addr: POOL_1, type: createPoolType(X, Y), x: BigInt(1000000), y: BigInt(1000000), lpFee: BigInt(25) });
+
+    it('builds the exact output swap with the max input amount', async () => {
+        const client = createTradingClient();
+        const outAmount = BigInt(1000);
+        const inAmount = pool.getInputAmount("forward", outAmount)!;
+        const maxInputAmount = Slippage.fromRatio(0.01).getMaxInputAmount(inAmount);
+
+        const tx = await client.generateMoveTransaction({ operation: "swap", pool, direction: "forward", amount: outAmount, maxInputAmount }, ctx);
+        expect(getTransactionKinds(tx)).deep.equals(["MakeMoveVec", "MoveCall:swap_x_to_y"]);
+
+        // The slippage tolerance is kept on chain, the max input amount is paid for at least the output amount
+        const swap = tx.blockData.transactions[1] as Extract<BlockTransaction, { kind: "MoveCall" }>;
+        expect(getU64Argument(tx, swap.arguments[2])).equals(maxInputAmount);
+        expect(getU64Argument(tx, swap.arguments[3])).equals(outAmount);
+
+        let error: Error | null = null;
+        await client.generateMoveTransaction({ operation: "swap", pool, direction: "forward", amount: outAmount, maxInputAmount: inAmount - BigInt(1) }, ctx).catch(e => { error = e; });
+        expect(error).not.equals(null);
+    });
+
+    it('builds the exact input swap', async () => {
+        const client = createTradingClient();
+        const tx = await client.generateMoveTransaction({ operation: "swap", pool, direction: "forward", amount: BigInt(7000), minOutputAmount: BigInt(6000) }, ctx);
+        const swap = tx.blockData.transactions[1] as Extract<BlockTransaction, { kind: "MoveCall" }>;
+        expect(getU64Argument(tx, swap.arguments[2])).equals(BigInt(7000));
+        expect(getU64Argument(tx, swap.arguments[3])).equals(BigInt(6000));
+    });
+
+    it('builds the liquidity removal', async () => {
+        const client = createTradingClient();
+        const zero = BigInt(0);
+        const position = new PositionInfo({
+            addr: nid("0xc1"),
+            poolInfo: pool,
+            value: BigInt(2000),
+            poolX: zero,
+            poolY: zero,
+            poolMiningAmpt: new ValuePerToken(zero, zero),
+            startEpoch: zero,
+            endEpoch: zero,
+            boostMultiplier: zero
+        });
+
+        const tx = await client.generateMoveTransaction({ operation: "remove-liquidity", positionInfo: position }, ctx);
+        expect(getTransactionKinds(tx)).deep.equals(["MoveCall:remove_liquidity"]);
+    });
+});
@@ -4,24 +4,55 @@ import {
     normalizeSuiObjectId as nid, normalizeSuiAddress as naddr,
     getObjectId, getMoveObjectType, SuiObjectDataFilter,
     PaginatedObjectsResponse, SuiObjectResponse, SuiObjectDataOptions,
-    getObjectType, PaginatedCoins, PaginatedEvents, TransactionBlock, CoinStruct, Inputs
+    getObjectType, PaginatedCoins, PaginatedEvents, TransactionBlock, CoinStruct, Inputs, TransactionArgument, SuiEvent, EventId
 } from '@mysten/sui.js';
 import { DynamicFieldPage, DynamicFieldInfo } from '@mysten/sui.js/dist/types/dynamic_fields';
 import {
     SwapTransactionData, DepositTransactionData, WithdrawTransactionData, PoolInfo, CoinType, PoolType, CoinInfo,
     AddressType, TxHashType, CommonTransaction, uniqArrayOn, PoolBoostMultiplierData,
-    ValuePerToken, EndPointType, PositionInfo
+    ValuePerToken, EndPointType, PositionInfo, PoolDirectionType, GetCoinUiFn
 } from './common';
 import { MoveType } from './move-type';
 import { TransactionOperation, TransacationArgument, TransactionArgumentHelper, TransactionTypeSerializeContext } from './transaction';
 import { BigIntConstants, NumberLimit, SuiConstants } from './constants';
 import { Client, ClientFeatures } from './client';
 import { parseMoveStructTag, getTypeTagFullname } from './type-tag';
+import { PriceOracle } from './oracle';
+import { CoinMetadataRegistry, CoinUiOverrides } from './coin-metadata';
+import { SuiswapNetwork, SuiswapDeploymentRegistry } from './network';
+import { ExplorerProvider, ExplorerProviders } from './explorer';
+import { SuiswapEventStream, SuiswapEventStreamProps } from './event-stream';
+import { PoolWatcher, PoolWatcherProps } from './pool-watcher';
 
 export interface SuiswapClientTransactionContext {
     accountAddr: AddressType;
 }
 
+export type TransactionHistoryCursor = EventId | null;
+
+export interface TransactionHistoryFilter {
+    poolIds?: AddressType[];
+    types?: Array<CommonTransaction["type"]>;
+    /// The time range in seconds, [startTime, endTime)
+    startTime?: number;
+    endTime?: number;
+}
+
+export interface TransactionHistoryQuery {
+    /// The max number of the transactions in the page
+    limit?: number;
+    cursor?: TransactionHistoryCursor;
+    filter?: TransactionHistoryFilter;
+    /// The pools for decoding the transactions, fetched when not provided
+    pools?: PoolInfo[];
+}
+
+export interface TransactionHistoryPage {
+    items: CommonTransaction[];
+    /// The cursor for the next page, null when there're no more transactions
+    nextCursor: TransactionHistoryCursor;
+}
+
 export type SuiswapClientObjectFilterType = "coin" | "package-related" | "packge-position";
 
 type GetGasCoinType = {
@@ -41,6 +72,14 @@ export interface SuiswapClientConstructorProps {
     testTokenSupplyId: AddressType;
     owner: AddressType;
     endpoint: string;
+    /// The oracle for the primary coin price and the coins without pricing pools
+    priceOracle?: PriceOracle;
+    /// The coin ui overrides keyed by the coin type string, merged on top of the on-chain coin metadata
+    coinUiOverrides?: CoinUiOverrides;
+    /// The network of the endpoint, inferred from the endpoint url when not provided
+    network?: EndPointType;
+    /// The explorer for the links, default to ExplorerProviders.DEFAULT
+    explorerProvider?: ExplorerProvider;
 };
 
 export interface SuiswapMoveCallTransaction {
@@ -91,6 +130,8 @@ export class SuiswapClient extends Client {
     static DEFAULT_ADD_LIQUIDITY_GAS_AMOUNT = BigInt(3000);
     static DEFAULT_MINT_TEST_COIN_GAS_AMOUNT = BigInt(3000);
     static DEFAULT_REMOVE_LIQUIDITY_GAS_AMOUNT = BigInt(3000);
+    static DEFAULT_TRANSACTION_PAGE_SIZE = 20;
+    static DEFAULT_QUERY_EVENTS_LIMIT = 200;
     static DEFAULT_SUI_OBJECT_OPTIONS: SuiObjectDataOptions = { showOwner: true, showContent: true, showType: true, showDisplay: true };
 
     packageAddr: AddressType;
@@ -101,6 +142,10 @@ export class SuiswapClient extends Client {
     testTokenSupplyId: AddressType;
     owner: AddressType;
     endpoint: string;
+    priceOracle: PriceOracle | null;
+    coinMetadataRegistry: CoinMetadataRegistry;
+    network: EndPointType;
+    explorerProvider: ExplorerProvider;
     gasFeePrice: bigint;
     provider: JsonRpcProvider;
     cachePoolRefs: Array<{ poolType: PoolType, poolId: AddressType }> | null = null;
@@ -117,14 +162,46 @@ export class SuiswapClient extends Client {
 
         this.owner = naddr(props.owner);
         this.endpoint = props.endpoint;
+        this.priceOracle = props.priceOracle ?? null;
+        this.network = props.network ?? SuiswapClient.inferNetworkFromEndpoint(props.endpoint);
+        this.explorerProvider = props.explorerProvider ?? ExplorerProviders.DEFAULT;
 
         const connection = new Connection({ fullnode: props.endpoint });
         this.provider = new JsonRpcProvider(connection);
+        this.coinMetadataRegistry = new CoinMetadataRegistry({
+            fetchCoinMetadata: (coinType: CoinType) => this.provider.getCoinMetadata({ coinType: coinType.str() }),
+            overrides: props.coinUiOverrides
+        });
 
         // Initialize as one (before version 0.22)
         this.gasFeePrice = BigIntConstants.ONE;
     }
 
+    /// Create the client with the deployment registered for the network (see SuiswapDeploymentRegistry), the props override the deployment
+    static fromNetwork = (network: SuiswapNetwork, props?: Partial<SuiswapClientConstructorProps>) => {
+        const deployment = SuiswapDeploymentRegistry.get(network);
+        if (deployment === null) {
+            throw new Error(`Cannot find the deployment for network ${network}, no deployment is shipped, register it with SuiswapDeploymentRegistry first`);
+        }
+
+        return new SuiswapClient({
+            ...deployment,
+            endpoint: SuiswapDeploymentRegistry.getEndpoint(network),
+            network: SuiswapDeploymentRegistry.toChainName(network).split(":")[1] as EndPointType,
+            ...(props ?? {})
+        });
+    }
+
+    static inferNetworkFromEndpoint = (endpoint: string): EndPointType => {
+        if (endpoint.includes("testnet")) {
+            return "testnet";
+        }
+        else if (endpoint.includes("devnet")) {
+            return "devnet";
+        }
+        return "mainnet";
+    }
+
     getOwnedObjects = async (accountAddr: AddressType, extra?: { filter?: SuiObjectDataFilter, options?: SuiObjectDataOptions }) => {
         const results: PaginatedObjectsResponse[] = [];
 
@@ -349,137 +426,268 @@ export class SuiswapClient extends Client {
     }
 
     getExplorerHrefForTxHash = (txHash: TxHashType, endPointType?: EndPointType) => {
-        let suffix = "";
-        if (endPointType !== undefined) {
-            if (endPointType === "mainnet") {
-                suffix = "network=devnet";
-            }
-            else if (endPointType === "testnet") {
-                suffix = "network=testnet";
+        return this.explorerProvider.getTransactionHref(txHash, endPointType ?? this.network);
+    }
+
+    getExplorerHrefForObject = (objectId: AddressType, endPointType?: EndPointType) => {
+        return this.explorerProvider.getObjectHref(objectId, endPointType ?? this.network);
+    }
+
+    getExplorerHrefForAddress = (accountAddr: AddressType, endPointType?: EndPointType) => {
+        return this.explorerProvider.getAddressHref(accountAddr, endPointType ?? this.network);
+    }
+
+    getExplorerHrefForCoinType = (coinType: CoinType, endPointType?: EndPointType) => {
+        return this.explorerProvider.getCoinTypeHref(coinType, endPointType ?? this.network);
+    }
+
+    getExplorerHrefForPool = (pool: PoolInfo, endPointType?: EndPointType) => {
+        return this.explorerProvider.getPoolHref(pool, endPointType ?? this.network);
+    }
+
+    /// Decode the event of the package into the transaction, returns null for the events of other packages, the unknown
+    /// events and the events of unknown pools
+    mapEventToCommonTransaction = (event: SuiEvent, pools: PoolInfo[]) => {
+        const timestamp: number = Number(event.timestampMs);
+        const eventId: string = event.id.txDigest;
+        const eventName: string = event.type;
+
+        if ((nid(eventName.split("::")[0]) !== this.packageAddr)) {
+            return null;
+        }
+
+        const f = event.parsedJson;
+        if (f === undefined) {
+            return null;
+        }
+
+        // Swap event
+        if (eventName.endsWith("::pool::SwapTokenEvent")) {
+            const n_poolId = f.pool_id;
+            const n_xToY = f.x_to_y;
+            const n_inAmount = f.in_amount;
+            const n_outAmount = f.out_amount;
+
+            if (n_poolId !== undefined && n_xToY !== undefined && n_inAmount !== undefined && n_outAmount !== undefined) {
+                const poolId = nid(f.pool_id);
+                const poolInfo = pools.find(x => x.addr === poolId);
+                const xToY = Boolean(f.x_to_y);
+                const inAmount = BigInt(f.in_amount);
+                const outAmount = BigInt(f.out_amount);
+                if (poolInfo) {
+                    const data: SwapTransactionData = {
+                        poolType: poolInfo.type,
+                        direction: xToY ? "forward" : "reverse",
+                        inAmount: inAmount,
+                        outAmount: outAmount
+                    };
+                    const tx: CommonTransaction = {
+                        id: eventId,
+                        eventSeq: event.id.eventSeq,
+                        href: this.getExplorerHrefForTxHash(eventId),
+                        type: "swap",
+                        success: true,
+                        data: data,
+                        timestamp: timestamp / 1000.0,
+                        poolId: poolId
+                    };
+                    return tx;
+                }
             }
-            else if (endPointType === "devnet") {
-                suffix = "network=devnet";
+        }
+        // Liquidity event
+        if (eventName.endsWith("::pool::LiquidityEvent")) {
+            const n_pool_id = f.pool_id;
+            const n_is_added = f.is_added;
+            const n_x_amount = f.x_amount;
+            const n_y_amount = f.y_amount;
+            const n_lsp_amount = f.lsp_amount;
+            if (n_pool_id !== undefined && n_is_added !== undefined && n_x_amount !== undefined && n_y_amount !== undefined && n_lsp_amount !== undefined) {
+                const poolId = nid(f.pool_id);
+                const poolInfo = pools.find(x => x.addr === poolId);
+                const p_is_added = Boolean(n_is_added);
+                const p_x_amount = BigInt(n_x_amount);
+                const p_y_amount = BigInt(n_y_amount);
+                if (poolInfo) {
+                    if (p_is_added) {
+                        const data: DepositTransactionData = {
+                            poolType: poolInfo.type,
+                            inAmountX: p_x_amount,
+                            inAmountY: p_y_amount
+                        };
+                        const tx: CommonTransaction = {
+                            id: eventId,
+                            eventSeq: event.id.eventSeq,
+                            href: this.getExplorerHrefForTxHash(eventId),
+                            type: "deposit",
+                            success: true,
+                            data: data,
+                            timestamp: timestamp / 1000.0,
+                            poolId: poolId
+                        };
+                        return tx;
+                    }
+                    else {
+                        const data: WithdrawTransactionData = {
+                            poolType: poolInfo.type,
+                            outAmountX: p_x_amount,
+                            outAmountY: p_y_amount
+                        };
+                        const tx: CommonTransaction = {
+                            id: eventId,
+                            eventSeq: event.id.eventSeq,
+                            href: this.getExplorerHrefForTxHash(eventId),
+                            type: "withdraw",
+                            success: true,
+                            data: data,
+                            timestamp: timestamp / 1000.0,
+                            poolId: poolId
+                        };
+                        return tx;
+                    }
+                }
             }
         }
-        return `https://explorer.sui.io/transactions/${txHash}` + suffix;
+
+        return null;
     }
 
-    getTransactions = async (accountAddr: string, limit: number, pools_?: PoolInfo[]) => {
-        const pools = pools_ ?? (await this.getPools());
+    static isTransactionMatched = (tx: CommonTransaction, filter?: TransactionHistoryFilter) => {
+        if (filter === undefined) {
+            return true;
+        }
+        if (filter.poolIds !== undefined && !filter.poolIds.map(id => nid(id)).includes(tx.poolId ?? "")) {
+            return false;
+        }
+        if (filter.types !== undefined && !filter.types.includes(tx.type)) {
+            return false;
+        }
+        if (filter.startTime !== undefined && tx.timestamp < filter.startTime) {
+            return false;
+        }
+        if (filter.endTime !== undefined && tx.timestamp >= filter.endTime) {
+            return false;
+        }
+        return true;
+    }
 
-        const swapTxs: CommonTransaction[] = [];
-        const depositTxs: CommonTransaction[] = [];
-        const withdrawTxs: CommonTransaction[] = [];
+    /// Get one page of the transactions of the account from the newest to the oldest. Pass the nextCursor of the page
+    /// to get the next page, the nextCursor is null when there're no more transactions.
+    getTransactionsPage = async (accountAddr: AddressType, props?: TransactionHistoryQuery) => {
+        const limit = props?.limit ?? SuiswapClient.DEFAULT_TRANSACTION_PAGE_SIZE;
+        const filter = props?.filter;
+        const pools = props?.pools ?? (await this.getPools());
 
-        let cursor: PaginatedEvents['nextCursor'] = null;
-        while (swapTxs.length + depositTxs.length + withdrawTxs.length < limit) {
-            const ev: PaginatedEvents = await this.provider.queryEvents({ query: { Sender: accountAddr }, cursor: cursor, limit: 200, order: 'descending' });
-            const events = ev.data;
+        const items: CommonTransaction[] = [];
+        let cursor: TransactionHistoryCursor = props?.cursor ?? null;
+        let exhausted = false;
 
-            events.forEach((event) => {
-                const timestamp: number = Number(event.timestampMs);
-                const eventId: string = event.id.txDigest;
-                const eventName: string = event.type;
+        while (items.length < limit && !exhausted) {
+            const ev: PaginatedEvents = await this.provider.queryEvents({ query: { Sender: accountAddr }, cursor: cursor, limit: SuiswapClient.DEFAULT_QUERY_EVENTS_LIMIT, order: 'descending' });
+            const events = ev.data;
 
-                if ((nid(eventName.split("::")[0]) !== this.packageAddr)) {
-                    return
+            let consumed = 0;
+            for (const event of events) {
+                // The events are in descending order, so the rest are all before the start time
+                if (filter?.startTime !== undefined && Number(event.timestampMs) / 1000.0 < filter.startTime) {
+                    exhausted = true;
+                    break;
                 }
 
-                const f = event.parsedJson;
-
-                if (f !== undefined) {
-                    // Swap event
-                    if (eventName.endsWith("::pool::SwapTokenEvent")) {
-                        const n_poolId = f.pool_id;
-                        const n_xToY = f.x_to_y;
-                        const n_inAmount = f.in_amount;
-                        const n_outAmount = f.out_amount;
-
-                        if (n_poolId !== undefined && n_xToY !== undefined && n_inAmount !== undefined && n_outAmount !== undefined) {
-                            const poolId = nid(f.pool_id);
-                            const poolInfo = pools.find(x => x.addr === poolId);
-                            const xToY = Boolean(f.x_to_y);
-                            const inAmount = BigInt(f.in_amount);
-                            const outAmount = BigInt(f.out_amount);
-                            if (poolInfo) {
-                                const data: SwapTransactionData = {
-                                    poolType: poolInfo.type,
-                                    direction: xToY ? "forward" : "reverse",
-                                    inAmount: inAmount,
-                                    outAmount: outAmount
-                                };
-                                swapTxs.push({
-                                    id: eventId,
-                                    href: this.getExplorerHrefForTxHash(eventId),
-                                    type: "swap",
-                                    success: true,
-                                    data: data,
-                                    timestamp: timestamp / 1000.0
-                                })
-                            }
-                        }
-                    }
-                    // Liquidity event
-                    if (eventName.endsWith("::pool::LiquidityEvent")) {
-                        const n_pool_id = f.pool_id;
-                        const n_is_added = f.is_added;
-                        const n_x_amount = f.x_amount;
-                        const n_y_amount = f.y_amount;
-                        const n_lsp_amount = f.lsp_amount;
-                        if (n_pool_id !== undefined && n_is_added !== undefined && n_x_amount !== undefined && n_y_amount !== undefined && n_lsp_amount !== undefined) {
-                            const poolId = nid(f.pool_id);
-                            const poolInfo = pools.find(x => x.addr === poolId);
-                            const p_is_added = Boolean(n_is_added);
-                            const p_x_amount = BigInt(n_x_amount);
-                            const p_y_amount = BigInt(n_y_amount);
-                            if (poolInfo) {
-                                if (p_is_added) {
-                                    const data: DepositTransactionData = {
-                                        poolType: poolInfo.type,
-                                        inAmountX: p_x_amount,
-                                        inAmountY: p_y_amount
-                                    };
-                                    depositTxs.push({
-                                        id: eventId,
-                                        href: this.getExplorerHrefForTxHash(eventId),
-                                        type: "deposit",
-                                        success: true,
-                                        data: data,
-                                        timestamp: timestamp / 1000.0
-                                    });
-                                }
-                                else {
-                                    const data: WithdrawTransactionData = {
-                                        poolType: poolInfo.type,
-                                        outAmountX: p_x_amount,
-                                        outAmountY: p_y_amount
-                                    };
-                                    withdrawTxs.push({
-                                        id: eventId,
-                                        href: this.getExplorerHrefForTxHash(eventId),
-                                        type: "withdraw",
-                                        success: true,
-                                        data: data,
-                                        timestamp: timestamp / 1000.0
-                                    })
-                                }
-                            }
-                        }
+                cursor = event.id;
+                consumed += 1;
+
+                const tx = this.mapEventToCommonTransaction(event, pools);
+                if (tx !== null && SuiswapClient.isTransactionMatched(tx, filter)) {
+                    items.push(tx);
+                    if (items.length >= limit) {
+                        break;
                     }
                 }
-            });
+            }
 
-            if (ev.hasNextPage === false || events.length === 0 || ev.nextCursor === null) {
-                break;
+            // Continue from the last consumed event, there're no more events when the last page is consumed
+            const isLastPage = (ev.hasNextPage === false || events.length === 0 || ev.nextCursor === null);
+            if (isLastPage && consumed === events.length) {
+                exhausted = true;
             }
-            cursor = ev.nextCursor;
         }
 
-        return [...swapTxs, ...depositTxs, ...withdrawTxs].sort((a, b) => b.timestamp - a.timestamp);
+        const page: TransactionHistoryPage = {
+            items,
+            nextCursor: exhausted ? null : cursor
+        };
+        return page;
+    }
+
+    /// Iterate all the transactions of the account from the newest to the oldest, fetching the pages lazily
+    iterateTransactions = (accountAddr: AddressType, props?: TransactionHistoryQuery) => {
+        const self = this;
+        return (async function* () {
+            const pools = props?.pools ?? (await self.getPools());
+            let cursor: TransactionHistoryCursor = props?.cursor ?? null;
+            while (true) {
+                const page = await self.getTransactionsPage(accountAddr, { ...(props ?? {}), pools, cursor });
+                for (const item of page.items) {
+                    yield item;
+                }
+                if (page.nextCursor === null) {
+                    break;
+                }
+                cursor = page.nextCursor;
+            }
+        })();
+    }
+
+    /// Create the stream of the swap and liquidity events of the package, call start on the stream to begin polling
+    subscribeEvents = (props?: Omit<SuiswapEventStreamProps, "client">) => {
+        return new SuiswapEventStream({ ...(props ?? {}), client: this });
+    }
+
+    /// Create the watcher keeping the pools up to date, call start on the watcher to begin watching
+    watchPools = (props?: Omit<PoolWatcherProps, "client">) => {
+        return new PoolWatcher({ ...(props ?? {}), client: this });
+    }
+
+    getTransactions = async (accountAddr: string, limit: number, pools?: PoolInfo[]) => {
+        return (await this.getTransactionsPage(accountAddr, { limit, pools })).items;
     }
 
+    /// Fetch the coin metadata for the coins (default to the coins from getCoinsAndPools) into the registry
+    loadCoinMetadatas = async (coinTypes?: CoinType[]) => {
+        await this.coinMetadataRegistry.load(coinTypes ?? (await this.getCoins()));
+        return this.coinMetadataRegistry;
+    }
+
+    /// The GetCoinUiFn backed by the coin metadata registry, call loadCoinMetadatas first to get the on-chain metadata
+    getCoinUi: GetCoinUiFn = (coinType: CoinType) => {
+        return this.coinMetadataRegistry.getCoinUi(coinType);
+    }
+
+    getPriceOracle = () => {
+        return this.priceOracle;
+    }
+
+    setPriceOracle = (oracle: PriceOracle | null) => {
+        this.priceOracle = oracle;
+    }
+
+    /// Read the primary coin price from the price oracle, the oracle is only refreshed when it has no price yet.
+    /// Call PriceOracle.refresh on demand or on a schedule to update the price.
     getPrimaryCoinPrice: () => Promise<number> = async () => {
-        return (38.535 + Math.random() * 0.03);
+        if (this.priceOracle === null) {
+            throw new Error("Cannot get the primary coin price, the price oracle is not provided");
+        }
+
+        let price = this.priceOracle.getPrice(this.getPrimaryCoinType());
+        if (price === null) {
+            await this.priceOracle.refresh();
+            price = this.priceOracle.getPrice(this.getPrimaryCoinType());
+        }
+        if (price === null) {
+            throw new Error(`Cannot get the price for the primary coin ${this.getPrimaryCoinType().str()} from the price oracle`);
+        }
+        return price;
     }
 
     generateMoveTransaction = async (opt: TransactionOperation.Any, ctx: SuiswapClientTransactionContext) => {
@@ -762,60 +970,79 @@ export class SuiswapClient extends Client {
             throw new Error(`Invalid min output amount for swapping: ${opt.minOutputAmount}`);
         }
 
+        if ((opt.maxInputAmount !== undefined) && (opt.maxInputAmount <= BigIntConstants.ZERO || opt.maxInputAmount > NumberLimit.U64_MAX)) {
+            throw new Error(`Invalid max input amount for swapping: ${opt.maxInputAmount}`);
+        }
+
+        if ((opt.maxInputAmount !== undefined) && (opt.minOutputAmount !== undefined)) {
+            throw new Error(`Cannot provide both min output amount and max input amount for swapping, the amount is the exact output amount when max input amount is provided`);
+        }
+
         if (opt.pool.freeze) {
             throw new Error(`Cannot not swap for freeze pool: ${opt.pool.addr}`);
         }
 
+        let inputAmount = opt.amount;
+        let minOutputAmount = opt.minOutputAmount ?? BigIntConstants.ZERO;
+
+        // For exact output swapping, pay the max input amount and require the output amount, so the price could move until the
+        // max input amount only yields the output amount, and the extra output is received when the price doesn't move
+        if (opt.maxInputAmount !== undefined) {
+            const requiredInputAmount = opt.pool.getInputAmount(opt.direction, opt.amount);
+            if (requiredInputAmount === null) {
+                throw new Error(`Cannot swap for the output amount: ${opt.amount} from pool: ${opt.pool.addr}`);
+            }
+            if (requiredInputAmount > opt.maxInputAmount) {
+                throw new Error(`Input amount exceeds the max input amount for swapping, input amount: ${requiredInputAmount}, max input amount: ${opt.maxInputAmount}`);
+            }
+            inputAmount = opt.maxInputAmount;
+            minOutputAmount = opt.amount;
+        }
+
         const swapCoinType = (opt.direction === "forward") ? opt.pool.type.xTokenType : opt.pool.type.yTokenType;
         const swapCoins = await this.getAccountCoins(ctx.accountAddr, [swapCoinType]);
         const swapCoinsTotalBalance = swapCoins.reduce((sum, coin) => (sum + coin.balance), BigIntConstants.ZERO);
 
-        if (swapCoinsTotalBalance < opt.amount) {
-            throw new Error(`Not enough balance for swapping, max amount: ${swapCoinsTotalBalance}, target amount: ${opt.amount}`);
+        if (swapCoinsTotalBalance < inputAmount) {
+            throw new Error(`Not enough balance for swapping, max amount: ${swapCoinsTotalBalance}, target amount: ${inputAmount}`);
         }
 
-        const pacakge_ = this.getPackageAddress();
-        const module_ = "pool";
-        const function_ = (opt.direction == "forward") ? "swap_x_to_y" : "swap_y_to_x";
-
-        // Check whether its SUI coin
-        const isSui = MoveType.equals(swapCoinType, this.getPrimaryCoinType())
-
         const tx = new TransactionBlock();
+        const inCoins = this._prepareInputCoins(tx, swapCoinType, swapCoins, inputAmount);
+        this._moveCallSwap(tx, opt.pool, opt.direction, inCoins, inputAmount, minOutputAmount);
+
+        return tx;
+    }
 
+    _prepareInputCoins = (tx: TransactionBlock, coinType: CoinType, coins: CoinInfo[], amount: bigint) => {
         // Special handling if sui coin is used for input transaction
-        if (isSui) {
-            tx.setGasPayment(swapCoins.map(c => {
+        if (MoveType.equals(coinType, this.getPrimaryCoinType())) {
+            tx.setGasPayment(coins.map(c => {
                 const cs: CoinStruct = c.raw!;
                 return { version: cs.version, digest: cs.digest, objectId: cs.coinObjectId }
             }));
-            const [inCoin] = tx.splitCoins(tx.gas, [tx.pure(opt.amount)]);
-
-            tx.moveCall({
-                target: `${pacakge_}::${module_}::${function_}`,
-                typeArguments: [opt.pool.type.xTokenType.str(), opt.pool.type.yTokenType.str()],
-                arguments: [
-                    tx.object(opt.pool.addr),
-                    tx.makeMoveVec({ objects: [inCoin] }),
-                    tx.pure(ser64(opt.amount)),
-                    tx.pure(ser64(opt.minOutputAmount ?? 0))
-                ]
-            })
-        }
-        else {
-            tx.moveCall({
-                target: `${pacakge_}::${module_}::${function_}`,
-                typeArguments: [opt.pool.type.xTokenType.str(), opt.pool.type.yTokenType.str()],
-                arguments: [
-                    tx.object(opt.pool.addr),
-                    tx.makeMoveVec({ objects: swapCoins.map(x => tx.object(x.addr)) }),
-                    tx.pure(ser64(opt.amount)),
-                    tx.pure(ser64(opt.minOutputAmount ?? 0))
-                ]
-            })
+            const [inCoin] = tx.splitCoins(tx.gas, [tx.pure(amount)]);
+            return [inCoin] as TransactionArgument[];
         }
 
-        return tx;
+        return coins.map(c => tx.object(c.addr)) as TransactionArgument[];
+    }
+
+    _moveCallSwap = (tx: TransactionBlock, pool: PoolInfo, direction: PoolDirectionType, inCoins: TransactionArgument[], amount: bigint, minOutputAmount: bigint) => {
+        const function_ = (direction == "forward") ? "swap_x_to_y" : "swap_y_to_x";
+
+        // Entry: entry fun swap_x_to_y<X, Y>(pool: &mut Pool<X, Y>, in_coins: vector<Coin<X>>, in_amount: u64, min_out_amount: u64, ctx: &mut TxContext)
+        // The output coin and the change of the input coins are transferred to the sender, nothing is returned
+        tx.moveCall({
+            target: `${this.getPackageAddress()}::pool::${function_}`,
+            typeArguments: [pool.type.xTokenType.str(), pool.type.yTokenType.str()],
+            arguments: [
+                tx.object(pool.addr),
+                tx.makeMoveVec({ objects: inCoins }),
+                tx.pure(ser64(amount)),
+                tx.pure(ser64(minOutputAmount))
+            ]
+        });
     }
 
     _generateMoveTransaction_AddLiquidity = async (opt: TransactionOperation.AddLiquidity, ctx: SuiswapClientTransactionContext) => {
@@ -859,76 +1086,31 @@ export class SuiswapClient extends Client {
             throw new Error(`The account has insuffcient balance for coin ${pool.type.yTokenType.str()}, current balance: ${swapYCoinsTotalAmount}, expected: ${yAmount}`);
         }
 
-        const isXSui = MoveType.equals(pool.type.xTokenType, this.getPrimaryCoinType());
-        const isYSui = MoveType.equals(pool.type.yTokenType, this.getPrimaryCoinType());
-
         const tx = new TransactionBlock();
-        // let txXCoins: any = tx.makeMoveVec({ objects: swapXCoins.map(c => tx.object(c.addr)) });
-        // let txYCoins: any = tx.makeMoveVec({ objects: swapYCoins.map(c => tx.object(c.addr)) });
-
-        // Special case when X is sui
-        if (isXSui) {
-            tx.setGasPayment(swapXCoins.map(c => {
-                const cs: CoinStruct = c.raw!;
-                return { version: cs.version, digest: cs.digest, objectId: cs.coinObjectId }
-            }));
-            const [cSplit] = tx.splitCoins(tx.gas, [tx.pure(ser64(xAmount))]);
-
-            tx.moveCall({
-                target: `${this.getPackageAddress()}::pool::add_liquidity`,
-                typeArguments: [pool.type.xTokenType.str(), pool.type.yTokenType.str()],
-                arguments: [
-                    tx.object(pool.addr),
-                    tx.makeMoveVec({ objects: [ cSplit ]}),
-                    tx.makeMoveVec({ objects: swapYCoins.map(c => tx.object(c.addr))}),
-                    tx.pure(ser64(xAmount)),
-                    tx.pure(ser64(yAmount)),
-                    tx.pure(ser64(opt.unlockEpoch))
-                ],
-            });
-        }
-        // Special case when Y is sui
-        else if (isYSui) {
-            tx.setGasPayment(swapYCoins.map(c => {
-                const cs: CoinStruct = c.raw!;
-                return { version: cs.version, digest: cs.digest, objectId: cs.coinObjectId }
-            }));
-            const [cSplit] = tx.splitCoins(tx.gas, [tx.pure(ser64(yAmount))]);
-
-            tx.moveCall({
-                target: `${this.getPackageAddress()}::pool::add_liquidity`,
-                typeArguments: [pool.type.xTokenType.str(), pool.type.yTokenType.str()],
-                arguments: [
-                    tx.object(pool.addr),
-                    tx.makeMoveVec({ objects: swapXCoins.map(c => tx.object(c.addr))}),
-                    tx.makeMoveVec({ objects: [ cSplit ]}),
-                    tx.pure(ser64(xAmount)),
-                    tx.pure(ser64(yAmount)),
-                    tx.pure(ser64(opt.unlockEpoch))
-                ],
-            });
-        }
-        else {
-            tx.moveCall({
-                target: `${this.getPackageAddress()}::pool::add_liquidity`,
-                typeArguments: [pool.type.xTokenType.str(), pool.type.yTokenType.str()],
-                arguments: [
-                    tx.object(pool.addr),
-                    tx.makeMoveVec({ objects: swapXCoins.map(c => tx.object(c.addr))}),
-                    tx.makeMoveVec({ objects: swapYCoins.map(c => tx.object(c.addr))}),
-                    tx.pure(ser64(xAmount)),
-                    tx.pure(ser64(yAmount)),
-                    tx.pure(ser64(opt.unlockEpoch))
-                ],
-            });
-        }
+        const xCoins = this._prepareInputCoins(tx, pool.type.xTokenType, swapXCoins, xAmount);
+        const yCoins = this._prepareInputCoins(tx, pool.type.yTokenType, swapYCoins, yAmount);
+        this._moveCallAddLiquidity(tx, pool, xCoins, yCoins, xAmount, yAmount, opt.unlockEpoch);
 
         return tx;
     }
 
+    _moveCallAddLiquidity = (tx: TransactionBlock, pool: PoolInfo, xCoins: TransactionArgument[], yCoins: TransactionArgument[], xAmount: bigint, yAmount: bigint, unlockEpoch: bigint) => {
+        return tx.moveCall({
+            target: `${this.getPackageAddress()}::pool::add_liquidity`,
+            typeArguments: [pool.type.xTokenType.str(), pool.type.yTokenType.str()],
+            arguments: [
+                tx.object(pool.addr),
+                tx.makeMoveVec({ objects: xCoins }),
+                tx.makeMoveVec({ objects: yCoins }),
+                tx.pure(ser64(xAmount)),
+                tx.pure(ser64(yAmount)),
+                tx.pure(ser64(unlockEpoch))
+            ],
+        });
+    }
+
     _generateMoveTransaction_RemoveLiquidity = async (opt: TransactionOperation.RemoveLiquidity, ctx: SuiswapClientTransactionContext) => {
         const position = opt.positionInfo;
-        const pool = position.poolInfo;
         const amount = position.balance();
 
         if ((amount <= 0 || amount > NumberLimit.U64_MAX)) {
@@ -942,8 +1124,17 @@ export class SuiswapClient extends Client {
 
         // Getting the both x coin and y coin
 
-        // Entry: entry fun remove_liquidity<X, Y>(pool: &mut Pool<X, Y>, lsp: Coin<LSP<X, Y>>, lsp_amount: u64, ctx: &mut TxContext)
         const tx = new TransactionBlock();
+        this._moveCallRemoveLiquidity(tx, position, amount);
+
+        return tx;
+    }
+
+    _moveCallRemoveLiquidity = (tx: TransactionBlock, position: PositionInfo, amount: bigint) => {
+        const pool = position.poolInfo;
+
+        // Entry: entry fun remove_liquidity<X, Y>(pool: &mut Pool<X, Y>, lsp: Coin<LSP<X, Y>>, lsp_amount: u64, ctx: &mut TxContext)
+        // The removed coins are transferred to the sender, nothing is returned
         tx.moveCall({
             target: `${this.packageAddr}::pool::remove_liquidity`,
             typeArguments: [pool.type.xTokenType.str(), pool.type.yTokenType.str()],
@@ -954,8 +1145,6 @@ export class SuiswapClient extends Client {
                 tx.pure(ser64(amount))
             ]
         });
-
-        return tx;
     }
 
     _generateMoveTransaction_Raw = async (opt: TransactionOperation.Raw, ctx: SuiswapClientTransactionContext) => {
@@ -0,0 +1,181 @@
+import { bcs, CoinStruct, JsonRpcProvider, PaginatedCoins, PaginatedEvents, SuiEvent, TransactionArgument, TransactionBlock } from "@mysten/sui.js";
+import { PoolInfo, PoolInfoInitializeInfo, PoolType, ValuePerToken } from "./common";
+import { MoveType } from "./move-type";
+import { SuiswapClient, SuiswapClientConstructorProps } from "./suiswap-client";
+
+/// The shared fixtures for the tests, excluded from the build
+
+export const createCoinType = (name: string) => new MoveType({ package: "0x2", module: "coin", field: name });
+
+export const createPoolType = (x: MoveType, y: MoveType) => new PoolType({ xTokenType: x, yTokenType: y });
+
+/// Create the pool with all the fields zero, override the fields with the props
+export const createPool = (props: Partial<PoolInfoInitializeInfo>) => {
+    const zero = BigInt(0);
+    return new PoolInfo({
+        addr: "",
+        typeString: "",
+        index: 0,
+        type: {} as PoolType,
+        swapType: "v2",
+        lspSupply: zero,
+        freeze: false,
+        boostMultiplierData: [],
+        feeDirection: "X",
+        adminFee: zero,
+        lpFee: zero,
+        thFee: zero,
+        withdrawFee: zero,
+        x: zero,
+        y: zero,
+        xAdmin: zero,
+        yAdmin: zero,
+        xTh: zero,
+        yTh: zero,
+        stableAmp: zero,
+        stableXScale: zero,
+        stableYScale: zero,
+        totalTradeX: zero,
+        totalTradeY: zero,
+        totalTradeXLastEpoch: zero,
+        totalTradeYLastEpoch: zero,
+        totalTradeXCurrentEpoch: zero,
+        totalTradeYCurrentEpoch: zero,
+        thRewardType: "Balance",
+        thRewardX: zero,
+        thRewardY: zero,
+        thRewardXSupply: zero,
+        thRewardYSupply: zero,
+        thRewardNepoch: zero,
+        thRewardStartEpcoh: zero,
+        thRewardEndEpoch: zero,
+        thRewardTotalStakeAmount: zero,
+        thRewardTotalStakeBoost: zero,
+        miningSpeed: zero,
+        miningAmpt: new ValuePerToken(zero, zero),
+        miningLastEpoch: zero,
+        ...props
+    });
+}
+
+export const createClient = (props?: Partial<SuiswapClientConstructorProps>) => new SuiswapClient({
+    packageAddr: "0x1",
+    swapCapId: "0x1",
+    tokenCapId: "0x1",
+    tokenBankId: "0x1",
+    poolRegistryId: "0x1",
+    testTokenSupplyId: "0x1",
+    owner: "0x1",
+    endpoint: "http://127.0.0.1:9000",
+    ...(props ?? {})
+});
+
+export type QueryEventsInput = Parameters<JsonRpcProvider["queryEvents"]>[0];
+
+/// The provider methods faked by FakeProvider
+export type FakeProvider = Pick<JsonRpcProvider, "queryEvents" | "getAllCoins">;
+
+export interface FakeProviderProps {
+    /// The events from the oldest to the newest, the array could be appended later to simulate the new events
+    events?: SuiEvent[];
+    /// The max number of the events in one page, default to the limit of the query
+    pageSize?: number;
+    /// Repeat the cursor event at the start of the next page, for checking the deduplication
+    repeatCursorEvent?: boolean;
+    /// The coins owned by the account, returned in one page
+    coins?: CoinStruct[];
+}
+
+/// Create the fake provider and set it to the client, returns the queries and the start index of each page for checking
+export const setFakeProvider = (client: SuiswapClient, props: FakeProviderProps) => {
+    const events = props.events ?? [];
+    const queries: QueryEventsInput[] = [];
+    const starts: number[] = [];
+
+    const provider: FakeProvider = {
+        queryEvents: async (input: QueryEventsInput) => {
+            queries.push(input);
+            const ordered = (input.order === "descending") ? [...events].reverse() : events;
+            const cursor = input.cursor ?? null;
+            let start = (cursor === null) ? 0 : (ordered.findIndex(e => e.id.txDigest === cursor.txDigest) + 1);
+            if (props.repeatCursorEvent === true && cursor !== null) {
+                start -= 1;
+            }
+            starts.push(start);
+
+            const limit = Math.min(input.limit ?? ordered.length, props.pageSize ?? ordered.length);
+            const data = ordered.slice(start, start + limit);
+            const page: PaginatedEvents = {
+                data,
+                nextCursor: (data.length > 0) ? data[data.length - 1].id : null,
+                hasNextPage: start + data.length < ordered.length
+            };
+            return page;
+        },
+        getAllCoins: async () => {
+            const page: PaginatedCoins = { data: props.coins ?? [], nextCursor: null, hasNextPage: false };
+            return page;
+        }
+    };
+
+    client.provider = provider as JsonRpcProvider;
+    return { provider, queries, starts };
+}
+
+export const createCoinStruct = (coinType: MoveType, objectId: string, balance: bigint) => {
+    const coin: CoinStruct = {
+        coinType: coinType.str(),
+        coinObjectId: objectId,
+        version: 1,
+        digest: "",
+        balance: Number(balance),
+        lockedUntilEpoch: null,
+        previousTransaction: ""
+    };
+    return coin;
+}
+
+export interface PoolEventProps {
+    packageAddr: string;
+    poolId: string;
+    digest: string;
+    /// The timestamp in seconds
+    timestamp: number;
+    sender?: string;
+}
+
+const createPoolEvent = (props: PoolEventProps, name: string, parsedJson: Record<string, any>) => ({
+    id: { txDigest: props.digest, eventSeq: 0 },
+    packageId: props.packageAddr,
+    transactionModule: "pool",
+    sender: props.sender ?? "0x1",
+    type: `${props.packageAddr}::pool::${name}`,
+    parsedJson: { pool_id: props.poolId, ...parsedJson },
+    bcs: "",
+    timestampMs: props.timestamp * 1000
+} as SuiEvent);
+
+/// Create the x to y swap event of 100 in and 99 out
+export const createSwapEvent = (props: PoolEventProps) => {
+    return createPoolEvent(props, "SwapTokenEvent", { x_to_y: true, in_amount: "100", out_amount: "99" });
+}
+
+export const createLiquidityEvent = (props: PoolEventProps & { isAdded: boolean }) => {
+    return createPoolEvent(props, "LiquidityEvent", { is_added: props.isAdded, x_amount: "10", y_amount: "20", lsp_amount: "5" });
+}
+
+export type BlockTransaction = TransactionBlock["blockData"]["transactions"][number];
+
+/// Get the kinds of the transactions in the block, with the target function name for the move calls (e.g. "MoveCall:swap_x_to_y")
+export const getTransactionKinds = (tx: TransactionBlock) => {
+    return tx.blockData.transactions.map((t: BlockTransaction) => (t.kind === "MoveCall") ? `MoveCall:${t.target.split("::")[2]}` : t.kind);
+}
+
+/// Decode the u64 pure input referenced by the argument
+export const getU64Argument = (tx: TransactionBlock, arg: TransactionArgument) => {
+    if (arg.kind !== "Input") {
+        throw new Error(`The argument is not an input: ${arg.kind}`);
+    }
+    const bytes = (tx.blockData.inputs[arg.index].value as { Pure: number[] }).Pure;
+    return BigInt(bcs.de("u64", Uint8Array.from(bytes)));
+}
@@ -0,0 +1,87 @@
+import { expect } from "chai";
+import { MoveType } from "./move-type";
+import {
+    TokenList, parseTokenList, validateTokenList, mergeTokenLists, diffTokenLists, getNextTokenListVersion,
+    filterTokenListByTag, tokenListToGetCoinUiFn, TOKEN_LIST_TAG_VERIFIED
+} from "./token-list";
+
+const createList = (): TokenList => ({
+    name: "Test",
+    timestamp: "2023-05-01T00:00:00.000Z",
+    version: { major: 1, minor: 0, patch: 0 },
+    tags: { verified: { name: "Verified" } },
+    tokens: [
+        { coinType: "0x2::sui::SUI", symbol: "SUI", demical: 9, tags: [TOKEN_LIST_TAG_VERIFIED] },
+        { coinType: "0x5d4b::coin::USDC", symbol: "USDC", demical: 6, extensions: { stableCoin: "usdc" } },
+    ]
+});
+
+describe('TokenList', () => {
+    it('parses and validates', () => {
+        const list = parseTokenList(JSON.stringify(createList()));
+        expect(list.tokens[0].coinType).equals(MoveType.fromString("0x2::sui::SUI")!.str());
+        expect(validateTokenList(createList()).length).equals(0);
+
+        const invalid: any = createList();
+        invalid.version.minor = -1;
+        invalid.tokens.push({ coinType: "0x2::sui::SUI", symbol: "SUI2", tags: ["unknown"] });
+        invalid.tokens.push({ coinType: "USDT", symbol: "USDT", extensions: { stableCoin: "usdx" } });
+        const errors = validateTokenList(invalid);
+        expect(errors.length).equals(5);
+        expect(() => parseTokenList(invalid)).throws();
+    });
+
+    it('merges and diffs', () => {
+        const base = createList();
+        const update: TokenList = {
+            ...createList(),
+            timestamp: "2023-06-01T00:00:00.000Z",
+            tokens: [
+                { coinType: "0x5d4b::coin::USDC", symbol: "USDC", demical: 6, tags: [TOKEN_LIST_TAG_VERIFIED] },
+                { coinType: "0x6e5c::coin::USDT", symbol: "USDT", demical: 6, extensions: { stableCoin: "usdt" } },
+            ]
+        };
+
+        const merged = mergeTokenLists(base, update);
+        expect(merged.tokens.length).equals(3);
+        expect(merged.timestamp).equals(update.timestamp);
+        const usdc = merged.tokens.find(t => t.symbol === "USDC")!;
+        expect(usdc.extensions?.stableCoin).equals("usdc");
+        expect(usdc.tags).deep.equals([TOKEN_LIST_TAG_VERIFIED]);
+        expect(filterTokenListByTag(merged, TOKEN_LIST_TAG_VERIFIED).tokens.length).equals(2);
+
+        const diff = diffTokenLists(base, merged);
+        expect(diff.added.map(t => t.symbol)).deep.equals(["USDT"]);
+        expect(diff.removed.length).equals(0);
+        expect(diff.changed.map(c => c.after.symbol)).deep.equals(["USDC"]);
+        expect(getNextTokenListVersion(base.version, diff)).deep.equals({ major: 1, minor: 1, patch: 0 });
+
+        const reverse = diffTokenLists(merged, base);
+        expect(getNextTokenListVersion(merged.version, reverse)).deep.equals({ major: 2, minor: 0, patch: 0 });
+
+        // The order of the keys and the tags doesn't matter
+        const reordered: TokenList = {
+            ...createList(),
+            tokens: [
+                { symbol: "SUI", demical: 9, tags: [TOKEN_LIST_TAG_VERIFIED], coinType: "0x02::sui::SUI" },
+                { extensions: { stableCoin: "usdc" }, demical: 6, symbol: "USDC", coinType: "0x5d4b::coin::USDC", tags: [] },
+            ]
+        };
+        const unchanged = diffTokenLists(base, reordered);
+        expect(unchanged.changed.length).equals(0);
+        expect(getNextTokenListVersion(base.version, unchanged)).deep.equals(base.version);
+    });
+
+    it('provides GetCoinUiFn', () => {
+        const getCoinUi = tokenListToGetCoinUiFn(createList());
+        const sui = getCoinUi(MoveType.fromString("0x2::sui::SUI")!);
+        expect(sui.symbol).equals("SUI");
+        expect(sui.demical).equals(9);
+        expect((sui as any).tags).equals(undefined);
+
+        const usdc = getCoinUi(MoveType.fromString("0x5d4b::coin::USDC")!);
+        expect(usdc.extensions?.stableCoin).equals("usdc");
+
+        expect(getCoinUi(MoveType.fromString("0x3::coin::ABC")!).symbol).equals("ABC");
+    });
+});
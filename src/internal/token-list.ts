@@ -0,0 +1,289 @@
+import { CoinType, CoinUiInfo, CoinUiInfoWithoutId, GetCoinUiFn } from "./common";
+import { MoveType } from "./move-type";
+import { CoinUiOverrides } from "./coin-metadata";
+
+export const TOKEN_LIST_TAG_VERIFIED = "verified";
+
+const STABLE_COIN_KINDS = ["usdc", "usdt", "dai", "busd", "other"];
+
+export interface TokenListVersion {
+    major: number;
+    minor: number;
+    patch: number;
+}
+
+export interface TokenListTag {
+    name: string;
+    description?: string;
+}
+
+export interface TokenListToken extends CoinUiInfoWithoutId {
+    /// The coin type string, e.g. "0x2::sui::SUI"
+    coinType: string;
+    tags?: string[];
+}
+
+export interface TokenList {
+    name: string;
+    /// The ISO 8601 timestamp of the list
+    timestamp: string;
+    version: TokenListVersion;
+    tokens: TokenListToken[];
+    tags?: Record<string, TokenListTag>;
+    logoUrl?: string;
+}
+
+export interface TokenListDiff {
+    added: TokenListToken[];
+    removed: TokenListToken[];
+    changed: Array<{ before: TokenListToken, after: TokenListToken }>;
+}
+
+const isNonNegativeInteger = (v: any) => {
+    return typeof v === "number" && Number.isInteger(v) && v >= 0;
+}
+
+const isOptionalString = (v: any) => {
+    return v === undefined || typeof v === "string";
+}
+
+/// Validate the token list, returns the list of the errors (empty when the list is valid)
+export const validateTokenList = (data: any) => {
+    const errors: string[] = [];
+
+    if (typeof data !== "object" || data === null) {
+        return ["The token list should be an object"];
+    }
+    if (typeof data.name !== "string" || data.name.length === 0) {
+        errors.push("The name should be a non-empty string");
+    }
+    if (typeof data.timestamp !== "string" || isNaN(Date.parse(data.timestamp))) {
+        errors.push("The timestamp should be an ISO 8601 string");
+    }
+    if (typeof data.version !== "object" || data.version === null
+        || !isNonNegativeInteger(data.version.major) || !isNonNegativeInteger(data.version.minor) || !isNonNegativeInteger(data.version.patch)) {
+        errors.push("The version should have non-negative integer major, minor and patch");
+    }
+    if (!isOptionalString(data.logoUrl)) {
+        errors.push("The logoUrl should be a string");
+    }
+
+    const tagIds = new Set<string>();
+    if (data.tags !== undefined) {
+        if (typeof data.tags !== "object" || data.tags === null) {
+            errors.push("The tags should be an object");
+        }
+        else {
+            for (const [id, tag] of Object.entries<any>(data.tags)) {
+                if (typeof tag !== "object" || tag === null || typeof tag.name !== "string" || !isOptionalString(tag.description)) {
+                    errors.push(`Invalid tag: ${id}`);
+                }
+                tagIds.add(id);
+            }
+        }
+    }
+
+    if (!Array.isArray(data.tokens)) {
+        errors.push("The tokens should be an array");
+        return errors;
+    }
+
+    const coinTypes = new Set<string>();
+    data.tokens.forEach((token: any, index: number) => {
+        const prefix = `Token #${index}`;
+        if (typeof token !== "object" || token === null) {
+            errors.push(`${prefix}: should be an object`);
+            return;
+        }
+
+        const coinType = (typeof token.coinType === "string") ? MoveType.fromString(token.coinType) : null;
+        if (coinType === null) {
+            errors.push(`${prefix}: invalid coin type ${token.coinType}`);
+        }
+        else if (coinTypes.has(coinType.str())) {
+            errors.push(`${prefix}: duplicated coin type ${token.coinType}`);
+        }
+        else {
+            coinTypes.add(coinType.str());
+        }
+
+        if (typeof token.symbol !== "string" || token.symbol.length === 0) {
+            errors.push(`${prefix}: the symbol should be a non-empty string`);
+        }
+        if (!isOptionalString(token.name) || !isOptionalString(token.logoUrl)) {
+            errors.push(`${prefix}: the name and logoUrl should be strings`);
+        }
+        if (token.demical !== undefined && !isNonNegativeInteger(token.demical)) {
+            errors.push(`${prefix}: the demical should be a non-negative integer`);
+        }
+        if (token.supply !== undefined && typeof token.supply !== "number") {
+            errors.push(`${prefix}: the supply should be a number`);
+        }
+        if (token.extensions?.stableCoin !== undefined && !STABLE_COIN_KINDS.includes(token.extensions.stableCoin)) {
+            errors.push(`${prefix}: unknown stable coin ${token.extensions.stableCoin}`);
+        }
+        if (token.tags !== undefined) {
+            if (!Array.isArray(token.tags) || token.tags.some((t: any) => typeof t !== "string")) {
+                errors.push(`${prefix}: the tags should be an array of strings`);
+            }
+            else if (data.tags !== undefined) {
+                token.tags.filter((t: string) => !tagIds.has(t)).forEach((t: string) => errors.push(`${prefix}: unknown tag ${t}`));
+            }
+        }
+    });
+
+    return errors;
+}
+
+/// Parse and validate the token list from the JSON string or object, the coin types are normalized
+export const parseTokenList = (json: string | object) => {
+    const data = (typeof json === "string") ? JSON.parse(json) : json;
+
+    const errors = validateTokenList(data);
+    if (errors.length > 0) {
+        throw new Error(`Invalid token list: ${errors.join("; ")}`);
+    }
+
+    const list = data as TokenList;
+    return {
+        ...list,
+        tokens: list.tokens.map(token => ({ ...token, coinType: MoveType.fromString(token.coinType)!.str() }))
+    } as TokenList;
+}
+
+export const stringifyTokenList = (list: TokenList) => {
+    return JSON.stringify(list, null, 2);
+}
+
+const compareTokenListVersion = (a: TokenListVersion, b: TokenListVersion) => {
+    if (a.major !== b.major) return a.major - b.major;
+    if (a.minor !== b.minor) return a.minor - b.minor;
+    return a.patch - b.patch;
+}
+
+/// Merge the token lists, the tokens in the later lists override the ones with the same coin type in the earlier lists,
+/// while the tags of the tokens are combined
+export const mergeTokenLists = (base: TokenList, ...others: TokenList[]) => {
+    const tokens = new Map<string, TokenListToken>();
+    let tags: Record<string, TokenListTag> | undefined = base.tags;
+    let version = base.version;
+    let timestamp = base.timestamp;
+
+    for (const list of [base, ...others]) {
+        for (const token of list.tokens) {
+            const coinType = MoveType.fromString(token.coinType)?.str() ?? token.coinType;
+            const current = tokens.get(coinType);
+            const tokenTags = Array.from(new Set([...(current?.tags ?? []), ...(token.tags ?? [])]));
+            tokens.set(coinType, {
+                ...(current ?? {}),
+                ...token,
+                coinType,
+                extensions: (current?.extensions !== undefined || token.extensions !== undefined) ? { ...(current?.extensions ?? {}), ...(token.extensions ?? {}) } : undefined,
+                tags: (tokenTags.length > 0) ? tokenTags : undefined
+            });
+        }
+
+        if (list.tags !== undefined) {
+            tags = { ...(tags ?? {}), ...list.tags };
+        }
+        if (compareTokenListVersion(list.version, version) > 0) {
+            version = list.version;
+        }
+        if (Date.parse(list.timestamp) > Date.parse(timestamp)) {
+            timestamp = list.timestamp;
+        }
+    }
+
+    const merged: TokenList = {
+        ...base,
+        timestamp,
+        version,
+        tokens: Array.from(tokens.values()),
+        tags
+    };
+    return merged;
+}
+
+/// Compare the fields of the tokens with the same coin type, the order of the tags is ignored
+const isTokenListTokenEqual = (a: TokenListToken, b: TokenListToken) => {
+    const sortedTags = (token: TokenListToken) => [...(token.tags ?? [])].sort().join(",");
+    return a.symbol === b.symbol
+        && a.name === b.name
+        && a.demical === b.demical
+        && a.logoUrl === b.logoUrl
+        && a.supply === b.supply
+        && a.extensions?.stableCoin === b.extensions?.stableCoin
+        && sortedTags(a) === sortedTags(b);
+}
+
+/// Diff the tokens from the list a to the list b by the coin type
+export const diffTokenLists = (a: TokenList, b: TokenList) => {
+    const key = (token: TokenListToken) => MoveType.fromString(token.coinType)?.str() ?? token.coinType;
+    const aTokens = new Map(a.tokens.map(token => [key(token), token]));
+    const bTokens = new Map(b.tokens.map(token => [key(token), token]));
+
+    const diff: TokenListDiff = { added: [], removed: [], changed: [] };
+    bTokens.forEach((after, k) => {
+        const before = aTokens.get(k);
+        if (before === undefined) {
+            diff.added.push(after);
+        }
+        else if (!isTokenListTokenEqual(before, after)) {
+            diff.changed.push({ before, after });
+        }
+    });
+    aTokens.forEach((before, k) => {
+        if (!bTokens.has(k)) {
+            diff.removed.push(before);
+        }
+    });
+
+    return diff;
+}
+
+/// Get the next version for the diff, removing tokens is a major change, adding tokens is a minor change and
+/// changing the tokens is a patch change
+export const getNextTokenListVersion = (version: TokenListVersion, diff: TokenListDiff) => {
+    if (diff.removed.length > 0) {
+        return { major: version.major + 1, minor: 0, patch: 0 } as TokenListVersion;
+    }
+    if (diff.added.length > 0) {
+        return { major: version.major, minor: version.minor + 1, patch: 0 } as TokenListVersion;
+    }
+    if (diff.changed.length > 0) {
+        return { major: version.major, minor: version.minor, patch: version.patch + 1 } as TokenListVersion;
+    }
+    return version;
+}
+
+export const filterTokenListByTag = (list: TokenList, tag: string) => {
+    return { ...list, tokens: list.tokens.filter(token => token.tags?.includes(tag) ?? false) } as TokenList;
+}
+
+const mapTokenListTokenToCoinUi = (token: TokenListToken) => {
+    const { coinType: _coinType, tags: _tags, ...ui } = token;
+    return ui as CoinUiInfoWithoutId;
+}
+
+/// Convert the token list into the overrides for CoinMetadataRegistry (or SuiswapClientConstructorProps.coinUiOverrides)
+export const tokenListToCoinUiOverrides = (list: TokenList) => {
+    const overrides: CoinUiOverrides = {};
+    list.tokens.forEach(token => {
+        overrides[MoveType.fromString(token.coinType)?.str() ?? token.coinType] = mapTokenListTokenToCoinUi(token);
+    });
+    return overrides;
+}
+
+/// Create the GetCoinUiFn from the token list, the coins not in the list are given by the fallback, or with the struct name
+/// as the symbol when there's no fallback
+export const tokenListToGetCoinUiFn = (list: TokenList, fallback?: GetCoinUiFn) => {
+    const overrides = tokenListToCoinUiOverrides(list);
+    const fn: GetCoinUiFn = (coinType: CoinType) => {
+        const ui = overrides[coinType.str()];
+        if (ui === undefined) {
+            return (fallback !== undefined) ? fallback(coinType) : { id: coinType.str(), symbol: coinType.field };
+        }
+        return { ...ui, id: coinType.str() } as CoinUiInfo;
+    }
+    return fn;
+}
@@ -29,8 +29,14 @@ export interface TransactionOperation_SwapProps {
     operation: TransactionOperationType_SwapType;
     pool: PoolInfo;
     direction: PoolDirectionType;
+    /// The input amount, or the min output amount when maxInputAmount is provided
     amount: bigint;
+    /// The min output amount for exact input swapping, should not be provided with maxInputAmount
     minOutputAmount?: bigint;
+    /// When provided, the swap is exact output: the max input amount is paid and the transaction fails on chain when the output
+    /// is less than the amount, so the output above the amount is also received. Use Slippage.getMaxInputAmount on the quote of
+    /// PoolInfo.getInputAmount as the slippage tolerance, the building fails when the quote already exceeds it.
+    maxInputAmount?: bigint;
 };
 
 export interface TransactionOperation_AddLiquidityProps {
@@ -38,6 +44,7 @@ export interface TransactionOperation_AddLiquidityProps {
     pool: PoolInfo;
     xAmount: bigint;
     yAmount: bigint;
+    /// Use PoolInfo.getLockPlan to get the unlock epoch for the lock duration
     unlockEpoch: bigint;
 };
 
@@ -41,6 +41,24 @@ export const bigintPow = (a: bigint, b: number) => {
     return Array(b).fill(BigInt(a)).reduce((a, b) => a * b, BigInt(1));
 }
 
+export const bigintSqrt = (a: bigint) => {
+    if (a < BigIntConstants.ZERO) {
+        throw new Error(`Cannot compute the square root of negative value: ${a}`);
+    }
+    if (a < BigIntConstants.TWO) {
+        return a;
+    }
+
+    // Newton's method, x converges to floor(sqrt(a)) from above
+    let x = a;
+    let y = (x + BigIntConstants.ONE) / BigIntConstants.TWO;
+    while (y < x) {
+        x = y;
+        y = (x + a / x) / BigIntConstants.TWO;
+    }
+    return x;
+}
+
 export class StableSwapHelper {
     static compuateDNext = (dInit: bigint, dProd: bigint, sumX: bigint, A: bigint) => {
         const leverage = sumX * BigIntConstants.TWO * A;